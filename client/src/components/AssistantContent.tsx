@@ -0,0 +1,61 @@
+import React from 'react';
+import type { ToolActivity } from '../hooks/useWebSocketChat';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface AssistantContentProps {
+  content: string;
+  tools?: ToolActivity[];
+}
+
+const summarize = (value: unknown) => {
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+};
+
+const ToolCard: React.FC<{ tool: ToolActivity }> = ({ tool }) => {
+  const running = tool.output === undefined && tool.error === undefined;
+  return (
+    <div className={cn(
+      "my-2 rounded-md border bg-background/60 px-3 py-2 text-xs font-mono",
+      tool.error && "border-destructive/50"
+    )}>
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">{tool.name}</span>
+        <span className="text-muted-foreground truncate">{summarize(tool.input)}</span>
+        {running && (
+          <Badge variant="secondary" className="animate-pulse text-xs">
+            Running
+          </Badge>
+        )}
+      </div>
+      {tool.error ? (
+        <div className="mt-1 text-destructive">{tool.error}</div>
+      ) : !running && (
+        <div className="mt-1 text-muted-foreground break-all">→ {summarize(tool.output)}</div>
+      )}
+    </div>
+  );
+};
+
+// Reply text with its tool calls shown where they happened
+const AssistantContent: React.FC<AssistantContentProps> = ({ content, tools = [] }) => {
+  const segments: React.ReactNode[] = [];
+  let offset = 0;
+  for (const tool of tools) {
+    const text = content.slice(offset, tool.textOffset);
+    if (text) segments.push(<span key={`text-${offset}`}>{text}</span>);
+    segments.push(<ToolCard key={tool.id} tool={tool} />);
+    offset = Math.max(offset, tool.textOffset);
+  }
+  const rest = content.slice(offset);
+  if (rest) segments.push(<span key={`text-${offset}`}>{rest}</span>);
+
+  return (
+    <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+      {segments}
+    </div>
+  );
+};
+
+export default AssistantContent;
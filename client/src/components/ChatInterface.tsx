@@ -2,6 +2,14 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import useWebSocketChat from '../hooks/useWebSocketChat';
 import { useParakeetTranscription } from '../hooks/useParakeetTranscription';
 import { useAudioRecording } from '../hooks/useAudioRecording';
+import { useStreamingTranscription } from '../hooks/useStreamingTranscription';
+import { useVoiceActivity } from '../hooks/useVoiceActivity';
+import { useChatSettings } from '../hooks/useChatSettings';
+import { useConversations } from '../hooks/useConversations';
+import AssistantContent from './AssistantContent';
+import ConversationSidebar from './ConversationSidebar';
+import SettingsPanel from './SettingsPanel';
+import VoicePicker from './VoicePicker';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,10 +20,18 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
+import { exportFileName, toMarkdown, type ExportFormat } from '@shared/conversation-export';
+import { download, exportOf, wavOf } from '../utils/conversationExport';
 
 const ChatInterface: React.FC = () => {
   const [inputValue, setInputValue] = useState('');
-  const { isConnected, messages, currentResponse, currentUserMessage, isStreaming, error, sendMessage } = useWebSocketChat();
+  const { settings, saveSettings } = useChatSettings();
+  const {
+    isConnected, messages, currentResponse, currentUserMessage, currentTools, isStreaming, isSpeaking,
+    sessionConfig, configLimits, conversation, error, sendMessage, stop, resetConversation, loadConversation, messageAudio,
+  } = useWebSocketChat(settings);
+  const { conversations, activeId, isLoaded, select, load, record, rename, remove } = useConversations();
+  const [isRestored, setIsRestored] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   
   // Auto-scroll to bottom when messages change
@@ -26,16 +42,108 @@ const ChatInterface: React.FC = () => {
         scrollElement.scrollTop = scrollElement.scrollHeight;
       }
     }
-  }, [messages, currentResponse]);
+  }, [messages, currentResponse, currentTools]);
+
+  const openConversation = useCallback(async (id: string) => {
+    try {
+      const target = await load(id);
+      select(target?.id ?? null);
+      if (target) loadConversation(target.messages, target.serverId);
+    } catch (err) {
+      console.error('Failed to open conversation:', err);
+    }
+  }, [load, select, loadConversation]);
+
+  const startConversation = useCallback(() => {
+    select(null);
+    resetConversation();
+  }, [select, resetConversation]);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    await remove(id);
+    if (id === activeId) startConversation();
+  }, [remove, activeId, startConversation]);
+
+  const exportTitle = conversations.find(c => c.id === activeId)?.title ?? 'Conversation';
+
+  const exportConversation = (format: ExportFormat) => {
+    if (format === 'markdown') {
+      download(exportFileName(exportTitle, 'md'), toMarkdown(exportOf(exportTitle, messages)), 'text/markdown');
+    } else if (format === 'json') {
+      download(exportFileName(exportTitle, 'json'), JSON.stringify(exportOf(exportTitle, messages), null, 2), 'application/json');
+    } else {
+      // One file per turn that was heard
+      messages.filter(m => m.type === 'assistant').forEach((message, i) => {
+        const audio = messageAudio(message.id);
+        if (audio) download(exportFileName(exportTitle, `turn-${i + 1}.wav`), wavOf(audio), 'audio/wav');
+      });
+    }
+  };
+  const hasAudio = messages.some(m => m.type === 'assistant' && messageAudio(m.id));
+
+  // Pick up where the last visit left off, once the conversations are loaded
+  const restoringRef = useRef(false);
+  useEffect(() => {
+    if (!isLoaded || restoringRef.current) return;
+    restoringRef.current = true;
+    (activeId ? openConversation(activeId) : Promise.resolve()).finally(() => setIsRestored(true));
+  }, [isLoaded, activeId, openConversation]);
+
+  // Keep the sidebar's copy of the conversation on screen up to date
+  useEffect(() => {
+    if (isRestored) record(messages, conversation?.id ?? null);
+  }, [isRestored, messages, conversation, record]);
   
   // Transcription hooks
-  const { state: transcriptionState, initializeModel, transcribe, isReady } = useParakeetTranscription();
-  const { state: recordingState, startRecording, stopRecording, isRecording } = useAudioRecording();
+  const { state: transcriptionState, initializeModel, transcribe, transcribeWords, isReady } = useParakeetTranscription();
+  const { state: recordingState, startRecording, stopRecording, getRecordedAudio, recordedSeconds, isRecording } = useAudioRecording();
+  const {
+    partialText,
+    isStreaming: isTranscribingLive,
+    start: startLiveTranscription,
+    finish: finishLiveTranscription,
+  } = useStreamingTranscription({ transcribeWords, getRecordedAudio, recordedSeconds });
+
+  // Hands-free mode: an always-on microphone sends each utterance as a message
+  const [handsFree, setHandsFree] = useState(false);
+  const [vadSensitivity, setVadSensitivity] = useState(0.5);
+  const [vadSilenceMs, setVadSilenceMs] = useState(800);
+  const [isHandlingUtterance, setIsHandlingUtterance] = useState(false);
+
+  const handleUtterance = useCallback(async (audio: Float32Array) => {
+    setIsHandlingUtterance(true);
+    try {
+      const result = await transcribe(audio);
+      if (result && result.text.trim()) {
+        console.log(`Hands-free utterance: "${result.text}"`);
+        await sendMessage(result.text.trim(), result.confidence);
+      }
+    } finally {
+      setIsHandlingUtterance(false);
+    }
+  }, [transcribe, sendMessage]);
+
+  const isThinking = isHandlingUtterance || isStreaming;
+  const { isListening, isHearingSpeech, error: vadError } = useVoiceActivity({
+    enabled: handsFree && isReady && isConnected,
+    // Don't listen to our own voice, or to the user while a turn is underway
+    paused: isSpeaking || isThinking,
+    sensitivity: vadSensitivity,
+    trailingSilenceMs: vadSilenceMs,
+    onUtterance: handleUtterance,
+  });
+
+  // A push-to-talk transcription put in the input, kept with its confidence
+  // for as long as the input still reads the same
+  const spokenInputRef = useRef<{ text: string; confidence?: number } | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim() && !isStreaming) {
-      await sendMessage(inputValue.trim());
+    const prompt = inputValue.trim();
+    if (prompt && !isStreaming) {
+      const spoken = spokenInputRef.current;
+      await sendMessage(prompt, spoken?.text === prompt ? spoken.confidence : undefined);
+      spokenInputRef.current = null;
       setInputValue('');
     }
   };
@@ -51,11 +159,13 @@ const ChatInterface: React.FC = () => {
 
   // Handle microphone recording
   const handleMicrophonePress = useCallback(async () => {
-    if (isRecording) return;
+    if (isRecording || handsFree) return;
     
     console.log('Starting microphone recording...');
-    await startRecording();
-  }, [isRecording, startRecording]);
+    if (await startRecording() && isReady) {
+      startLiveTranscription();
+    }
+  }, [isRecording, handsFree, startRecording, isReady, startLiveTranscription]);
 
   const handleMicrophoneRelease = useCallback(async () => {
     if (!isRecording) return;
@@ -63,16 +173,22 @@ const ChatInterface: React.FC = () => {
     console.log('Stopping microphone recording...');
     const pcmData = await stopRecording();
     
-    if (pcmData && isReady) {
+    let text = isTranscribingLive ? await finishLiveTranscription() : '';
+    let confidence: number | undefined;
+    // Live windows heard nothing; try the whole recording in one go
+    if (!text.trim() && pcmData && isReady) {
       console.log('Transcribing recorded audio...');
       const result = await transcribe(pcmData);
-      
-      if (result && result.text.trim()) {
-        setInputValue(result.text.trim());
-        console.log(`Transcription complete: "${result.text}"`);
-      }
+      text = result?.text ?? '';
+      confidence = result?.confidence;
+    }
+
+    if (text.trim()) {
+      spokenInputRef.current = { text: text.trim(), confidence };
+      setInputValue(text.trim());
+      console.log(`Transcription complete: "${text}"`);
     }
-  }, [isRecording, stopRecording, isReady, transcribe]);
+  }, [isRecording, stopRecording, isTranscribingLive, finishLiveTranscription, isReady, transcribe]);
 
   // Keyboard shortcuts for microphone
   useEffect(() => {
@@ -80,7 +196,7 @@ const ChatInterface: React.FC = () => {
       // Only trigger microphone on space if not typing in an input field
       const isTyping = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
       
-      if (e.code === 'Space' && !e.repeat && !isStreaming && !isTyping) {
+      if (e.code === 'Space' && !e.repeat && !isStreaming && !isTyping && !handsFree) {
         e.preventDefault();
         handleMicrophonePress();
       }
@@ -103,234 +219,356 @@ const ChatInterface: React.FC = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isRecording, isStreaming, handleMicrophonePress, handleMicrophoneRelease]);
+  }, [isRecording, isStreaming, handsFree, handleMicrophonePress, handleMicrophoneRelease]);
 
   return (
     <TooltipProvider>
-      <div className="max-w-4xl mx-auto p-6 space-y-6">
-        {/* Status Panel */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-lg font-medium">Connection & Status</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            {/* Connection Status */}
-            <div className="flex items-center gap-2">
-              <Badge 
-                variant={isConnected ? "success" : "error"}
-                className={cn(
-                  "transition-all duration-200",
-                  isConnected && "animate-pulse"
-                )}
-              >
-                {isConnected ? 'Connected' : 'Disconnected'}
-              </Badge>
-              {isStreaming && (
-                <Badge variant="default" className="animate-pulse">
-                  Streaming
-                </Badge>
-              )}
-            </div>
-            
-            <Separator />
-            
-            {/* Transcription Status */}
-            <div className="flex flex-wrap gap-2">
-              {transcriptionState.status === 'loading' && (
-                <Badge variant="default" className="animate-pulse">
-                  Loading Model ({transcriptionState.progress}%)
-                </Badge>
-              )}
-              {transcriptionState.status === 'warming-up' && (
-                <Badge variant="warning" className="animate-pulse">
-                  Warming up model...
-                </Badge>
-              )}
-              {transcriptionState.status === 'ready' && (
-                <Badge variant="success">
-                  Transcription Ready
+      <div className="max-w-7xl mx-auto p-6 flex gap-6">
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={activeId}
+          onNew={startConversation}
+          onSelect={openConversation}
+          onRename={rename}
+          onDelete={deleteConversation}
+          disabled={isStreaming}
+        />
+        <div className="flex-1 min-w-0 max-w-4xl space-y-6">
+          {/* Status Panel */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg font-medium">Connection & Status</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {/* Connection Status */}
+              <div className="flex items-center gap-2">
+                <Badge 
+                  variant={isConnected ? "success" : "error"}
+                  className={cn(
+                    "transition-all duration-200",
+                    isConnected && "animate-pulse"
+                  )}
+                >
+                  {isConnected ? 'Connected' : 'Disconnected'}
                 </Badge>
-              )}
-              {transcriptionState.status === 'transcribing' && (
-                <Badge variant="default" className="animate-pulse">
-                  Transcribing...
-                </Badge>
-              )}
-              {transcriptionState.status === 'error' && (
-                <Badge variant="error">
-                  {transcriptionState.errorMessage}
-                </Badge>
-              )}
-            </div>
-
-            {/* Recording Status */}
-            {recordingState.status !== 'idle' && (
+                {isStreaming && (
+                  <Badge variant="default" className="animate-pulse">
+                    Streaming
+                  </Badge>
+                )}
+              </div>
+              
+              <Separator />
+              
+              {/* Transcription Status */}
               <div className="flex flex-wrap gap-2">
-                {isRecording && (
-                  <Badge variant="error" className="animate-pulse">
-                    Recording ({Math.floor(recordingState.duration / 1000)}s)
+                {transcriptionState.status === 'loading' && (
+                  <Badge variant="default" className="animate-pulse">
+                    Loading Model ({transcriptionState.progress}%)
+                  </Badge>
+                )}
+                {transcriptionState.status === 'warming-up' && (
+                  <Badge variant="warning" className="animate-pulse">
+                    Warming up model...
                   </Badge>
                 )}
-                {recordingState.status === 'processing' && (
-                  <Badge variant="secondary" className="animate-pulse">
-                    Processing audio...
+                {transcriptionState.status === 'ready' && (
+                  <Badge variant="success">
+                    Transcription Ready
                   </Badge>
                 )}
-                {recordingState.status === 'error' && (
+                {transcriptionState.status === 'transcribing' && (
+                  <Badge variant="default" className="animate-pulse">
+                    Transcribing...
+                  </Badge>
+                )}
+                {transcriptionState.status === 'error' && (
                   <Badge variant="error">
-                    {recordingState.errorMessage}
+                    {transcriptionState.errorMessage}
                   </Badge>
                 )}
               </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Chat History */}
-        <Card className="min-h-[400px]">
-          <CardHeader>
-            <CardTitle className="text-lg font-medium">Chat History</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-[340px] w-full" ref={scrollAreaRef}>
-              <div className="space-y-4">
-                {messages.length === 0 && !isStreaming ? (
-                  <div className="text-muted-foreground text-center py-8">
-                    Send a message to start the conversation
-                  </div>
-                ) : (
+
+              {/* Recording Status */}
+              {recordingState.status !== 'idle' && (
+                <div className="flex flex-wrap gap-2">
+                  {isRecording && (
+                    <Badge variant="error" className="animate-pulse">
+                      Recording ({Math.floor(recordingState.duration / 1000)}s)
+                    </Badge>
+                  )}
+                  {recordingState.status === 'processing' && (
+                    <Badge variant="secondary" className="animate-pulse">
+                      Processing audio...
+                    </Badge>
+                  )}
+                  {recordingState.status === 'error' && (
+                    <Badge variant="error">
+                      {recordingState.errorMessage}
+                    </Badge>
+                  )}
+                </div>
+              )}
+
+              <Separator />
+
+              {/* Hands-free Mode */}
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  variant={handsFree ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setHandsFree(on => !on)}
+                  disabled={!isReady || !isConnected}
+                >
+                  Hands-free {handsFree ? 'on' : 'off'}
+                </Button>
+                {handsFree && (
                   <>
-                    {/* Previous messages */}
-                    {messages.map((message) => (
-                      <div key={message.id} className={cn(
-                        "p-3 rounded-lg max-w-[80%]",
-                        message.type === 'user' 
-                          ? "bg-primary text-primary-foreground ml-auto" 
-                          : "bg-muted mr-auto"
-                      )}>
-                        <div className="text-sm font-medium mb-1">
-                          {message.type === 'user' ? 'You' : 'AI'}
-                        </div>
-                        <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
-                          {message.content}
-                        </div>
-                        <div className="text-xs opacity-70 mt-2">
-                          {message.timestamp.toLocaleTimeString()}
+                    {isSpeaking ? (
+                      <Badge variant="default" className="animate-pulse">Speaking</Badge>
+                    ) : isThinking ? (
+                      <Badge variant="secondary" className="animate-pulse">Thinking</Badge>
+                    ) : isListening ? (
+                      <Badge variant="outline" className={cn(isHearingSpeech && "animate-pulse")}>
+                        {isHearingSpeech ? 'Listening (hearing you)' : 'Listening'}
+                      </Badge>
+                    ) : null}
+                    {vadError && <Badge variant="destructive">{vadError}</Badge>}
+                  </>
+                )}
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  Sensitivity
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={vadSensitivity}
+                    onChange={(e) => setVadSensitivity(Number(e.target.value))}
+                    className="w-24"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  Silence timeout
+                  <Input
+                    type="number"
+                    min={200}
+                    max={5000}
+                    step={100}
+                    value={vadSilenceMs}
+                    onChange={(e) => setVadSilenceMs(Number(e.target.value) || 800)}
+                    className="h-8 w-20"
+                  />
+                  ms
+                </label>
+              </div>
+            </CardContent>
+          </Card>
+
+          <SettingsPanel
+            settings={settings}
+            onSave={saveSettings}
+            effective={sessionConfig}
+            limits={configLimits}
+          />
+
+          <VoicePicker
+            current={sessionConfig?.voice}
+            onSelect={(voice) => saveSettings({ ...settings, voice })}
+          />
+
+          {/* Chat History */}
+          <Card className="min-h-[400px]">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg font-medium">Chat History</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => exportConversation('markdown')} disabled={messages.length === 0}>
+                  Markdown
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => exportConversation('json')} disabled={messages.length === 0}>
+                  JSON
+                </Button>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span>
+                      <Button variant="outline" size="sm" onClick={() => exportConversation('wav')} disabled={!hasAudio}>
+                        Audio
+                      </Button>
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent>One WAV file per reply heard this session</TooltipContent>
+                </Tooltip>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={startConversation}
+                  disabled={isStreaming || messages.length === 0}
+                >
+                  New chat
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[340px] w-full" ref={scrollAreaRef}>
+                <div className="space-y-4">
+                  {messages.length === 0 && !isStreaming ? (
+                    <div className="text-muted-foreground text-center py-8">
+                      Send a message to start the conversation
+                    </div>
+                  ) : (
+                    <>
+                      {/* Previous messages */}
+                      {messages.map((message) => (
+                        <div key={message.id} className={cn(
+                          "p-3 rounded-lg max-w-[80%]",
+                          message.type === 'user' 
+                            ? "bg-primary text-primary-foreground ml-auto" 
+                            : "bg-muted mr-auto"
+                        )}>
+                          <div className="text-sm font-medium mb-1">
+                            {message.type === 'user' ? 'You' : 'AI'}
+                          </div>
+                          {message.type === 'assistant' ? (
+                            <AssistantContent content={message.content} tools={message.tools} />
+                          ) : (
+                            <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                              {message.content}
+                            </div>
+                          )}
+                          <div className="text-xs opacity-70 mt-2">
+                            {message.timestamp.toLocaleTimeString()}
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                    
-                    {/* Current streaming conversation */}
-                    {isStreaming && currentUserMessage && (
-                      <div className="p-3 rounded-lg max-w-[80%] bg-primary text-primary-foreground ml-auto">
-                        <div className="text-sm font-medium mb-1">You</div>
-                        <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
-                          {currentUserMessage}
+                      ))}
+                      
+                      {/* Current streaming conversation */}
+                      {isStreaming && currentUserMessage && (
+                        <div className="p-3 rounded-lg max-w-[80%] bg-primary text-primary-foreground ml-auto">
+                          <div className="text-sm font-medium mb-1">You</div>
+                          <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                            {currentUserMessage}
+                          </div>
                         </div>
-                      </div>
-                    )}
-                    
-                    {/* Current AI response */}
-                    {(currentResponse || isStreaming) && (
-                      <div className="p-3 rounded-lg max-w-[80%] bg-muted mr-auto">
-                        <div className="text-sm font-medium mb-1 flex items-center gap-2">
-                          AI
+                      )}
+                      
+                      {/* Current AI response */}
+                      {(currentResponse || isStreaming) && (
+                        <div className="p-3 rounded-lg max-w-[80%] bg-muted mr-auto">
+                          <div className="text-sm font-medium mb-1 flex items-center gap-2">
+                            AI
+                            {isStreaming && (
+                              <Badge variant="default" className="animate-pulse text-xs">
+                                Streaming
+                              </Badge>
+                            )}
+                          </div>
+                          {currentResponse || currentTools.length ? (
+                            <AssistantContent content={currentResponse} tools={currentTools} />
+                          ) : (
+                            <div className="space-y-2">
+                              <Skeleton className="h-4 w-3/4" />
+                              <Skeleton className="h-4 w-1/2" />
+                              <Skeleton className="h-4 w-2/3" />
+                            </div>
+                          )}
                           {isStreaming && (
-                            <Badge variant="default" className="animate-pulse text-xs">
-                              Streaming
+                            <Badge variant="secondary" className="mt-2 text-xs">
+                              Audio playing in real-time
                             </Badge>
                           )}
                         </div>
-                        {currentResponse ? (
-                          <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
-                            {currentResponse}
-                          </div>
-                        ) : (
-                          <div className="space-y-2">
-                            <Skeleton className="h-4 w-3/4" />
-                            <Skeleton className="h-4 w-1/2" />
-                            <Skeleton className="h-4 w-2/3" />
-                          </div>
-                        )}
-                        {isStreaming && (
-                          <Badge variant="secondary" className="mt-2 text-xs">
-                            Audio playing in real-time
-                          </Badge>
-                        )}
-                      </div>
-                    )}
-                  </>
-                )}
-              </div>
-            </ScrollArea>
-          </CardContent>
-        </Card>
-
-        {/* Error Display */}
-        {error && (
-          <Alert variant="destructive">
-            <AlertDescription>
-              {error}
-            </AlertDescription>
-          </Alert>
-        )}
-
-        {/* Input Form */}
-        <Card>
-          <CardContent className="pt-6">
-            <form onSubmit={handleSubmit} className="flex gap-2">
-              <div className="flex-1">
-                <Input
-                  type="text"
-                  value={inputValue}
-                  onChange={handleInputChange}
-                  placeholder={isReady ? "Type your message or hold space to record..." : "Type your message..."}
-                  disabled={!isConnected || isStreaming}
-                  className="w-full"
-                />
-              </div>
-              
-              {/* Microphone Button */}
-              {isReady && (
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        type="button"
-                        variant={isRecording ? "destructive" : "secondary"}
-                        size="icon"
-                        onMouseDown={handleMicrophonePress}
-                        onMouseUp={handleMicrophoneRelease}
-                        onTouchStart={handleMicrophonePress}
-                        onTouchEnd={handleMicrophoneRelease}
-                        disabled={!isConnected || isStreaming || transcriptionState.status === 'transcribing'}
-                        className={cn(
-                          "transition-all duration-200",
-                          isRecording && "animate-pulse scale-110"
-                        )}
-                      >
-                        <span className="text-lg">
-                          {isRecording ? '●' : recordingState.status === 'processing' ? '⚙' : '🎙'}
-                        </span>
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Hold to record (or hold space)</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
+                      )}
+                    </>
+                  )}
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          {/* Error Display */}
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {error}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Input Form */}
+          <Card>
+            <CardContent className="pt-6">
+              {isTranscribingLive && (
+                <div className="mb-3 text-sm italic text-muted-foreground">
+                  {partialText || 'Listening...'}
+                </div>
               )}
-              
-              <Button 
-                type="submit" 
-                disabled={!isConnected || isStreaming || !inputValue.trim()}
-                className="px-6"
-              >
-                {isStreaming ? 'Sending...' : 'Send'}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+              <form onSubmit={handleSubmit} className="flex gap-2">
+                <div className="flex-1">
+                  <Input
+                    type="text"
+                    value={inputValue}
+                    onChange={handleInputChange}
+                    placeholder={handsFree ? "Listening hands-free, or type your message..." : isReady ? "Type your message or hold space to record..." : "Type your message..."}
+                    disabled={!isConnected || isStreaming}
+                    className="w-full"
+                  />
+                </div>
+                
+                {/* Microphone Button */}
+                {isReady && !handsFree && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          type="button"
+                          variant={isRecording ? "destructive" : "secondary"}
+                          size="icon"
+                          onMouseDown={handleMicrophonePress}
+                          onMouseUp={handleMicrophoneRelease}
+                          onTouchStart={handleMicrophonePress}
+                          onTouchEnd={handleMicrophoneRelease}
+                          disabled={!isConnected || isStreaming || transcriptionState.status === 'transcribing'}
+                          className={cn(
+                            "transition-all duration-200",
+                            isRecording && "animate-pulse scale-110"
+                          )}
+                        >
+                          <span className="text-lg">
+                            {isRecording ? '●' : recordingState.status === 'processing' ? '⚙' : '🎙'}
+                          </span>
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Hold to record (or hold space)</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
+                
+                {/* The reply may still be speaking after its text is done */}
+                {(isStreaming || isSpeaking) && (
+                  <Button 
+                    type="button" 
+                    variant="destructive"
+                    onClick={stop}
+                    className="px-6"
+                  >
+                    Stop
+                  </Button>
+                )}
+                {!isStreaming && (
+                  <Button 
+                    type="submit" 
+                    disabled={!isConnected || !inputValue.trim()}
+                    className="px-6"
+                  >
+                    Send
+                  </Button>
+                )}
+              </form>
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </TooltipProvider>
   );
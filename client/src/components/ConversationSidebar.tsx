@@ -0,0 +1,145 @@
+import React, { useState, useMemo } from 'react';
+import type { ListedConversation } from '../hooks/useConversations';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+interface ConversationSidebarProps {
+  conversations: ListedConversation[];
+  activeId: string | null;
+  onNew: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  // Switching is off mid-turn
+  disabled?: boolean;
+}
+
+const matches = (conversation: ListedConversation, query: string) =>
+  conversation.title.toLowerCase().includes(query) ||
+  conversation.messages.some(m => m.content.toLowerCase().includes(query));
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations, activeId, onNew, onSelect, onRename, onDelete, disabled,
+}) => {
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const shown = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return q ? conversations.filter(c => matches(c, q)) : conversations;
+  }, [conversations, query]);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming?.title.trim()) return;
+    try {
+      await onRename(renaming.id, renaming.title.trim());
+      setRenaming(null);
+      setError(null);
+    } catch (err) {
+      console.error('Rename failed:', err);
+      setError('Rename failed');
+    }
+  };
+
+  const handleDelete = async (conversation: ListedConversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+    try {
+      await onDelete(conversation.id);
+      setError(null);
+    } catch (err) {
+      console.error('Delete failed:', err);
+      setError('Delete failed');
+    }
+  };
+
+  return (
+    <Card className="w-72 shrink-0 self-start sticky top-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-lg font-medium">Conversations</CardTitle>
+        <Button variant="outline" size="sm" onClick={onNew} disabled={disabled}>
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations..."
+          className="h-8"
+        />
+        {error && <div className="text-sm text-destructive">{error}</div>}
+        <ScrollArea className="h-[calc(100vh-12rem)]">
+          <div className="space-y-1 pr-3">
+            {shown.length === 0 && (
+              <div className="text-sm text-muted-foreground py-4 text-center">
+                {query ? 'No matches' : 'No conversations yet'}
+              </div>
+            )}
+            {shown.map(conversation => renaming?.id === conversation.id ? (
+              <form key={conversation.id} onSubmit={handleRename} className="space-y-2 rounded-md border p-2">
+                <Input
+                  autoFocus
+                  value={renaming.title}
+                  maxLength={200}
+                  onChange={(e) => setRenaming({ id: conversation.id, title: e.target.value })}
+                  className="h-8"
+                />
+                <div className="flex gap-2">
+                  <Button type="submit" size="sm">Save</Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setRenaming(null)}>Cancel</Button>
+                </div>
+              </form>
+            ) : (
+              <div
+                key={conversation.id}
+                className={cn(
+                  "group rounded-md border p-2 text-sm",
+                  conversation.id === activeId ? "border-primary bg-muted" : "border-transparent hover:bg-muted",
+                )}
+              >
+                <button
+                  type="button"
+                  className="w-full text-left disabled:cursor-not-allowed"
+                  disabled={disabled || conversation.id === activeId}
+                  onClick={() => onSelect(conversation.id)}
+                >
+                  <div className="truncate font-medium">{conversation.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(conversation.updatedAt).toLocaleString()}
+                    {conversation.serverOnly && ' · on server'}
+                  </div>
+                </button>
+                <div className="mt-1 flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setRenaming({ id: conversation.id, title: conversation.title })}
+                  >
+                    Rename
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 px-2 text-xs"
+                    disabled={disabled && conversation.id === activeId}
+                    onClick={() => handleDelete(conversation)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import type { SessionConfig, SessionConfigLimits } from '@shared/protocol';
+import type { ChatSettings } from '../hooks/useChatSettings';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface SettingsPanelProps {
+  settings: ChatSettings;
+  onSave: (settings: ChatSettings) => void;
+  // What the server is using and allows; null until it has answered
+  effective: SessionConfig | null;
+  limits: SessionConfigLimits | null;
+}
+
+const fieldClass = "border-input w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+// Empty inputs mean "server default"
+const toNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, effective, limits }) => {
+  const [open, setOpen] = useState(false);
+  const [model, setModel] = useState(settings.model ?? '');
+  const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt ?? '');
+  const [temperature, setTemperature] = useState(settings.temperature?.toString() ?? '');
+  const [maxTokens, setMaxTokens] = useState(settings.maxTokens?.toString() ?? '');
+
+  // Start from the saved settings whenever the panel opens
+  useEffect(() => {
+    if (!open) return;
+    setModel(settings.model ?? '');
+    setSystemPrompt(settings.systemPrompt ?? '');
+    setTemperature(settings.temperature?.toString() ?? '');
+    setMaxTokens(settings.maxTokens?.toString() ?? '');
+  }, [open, settings]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...settings,
+      model: model || undefined,
+      systemPrompt: systemPrompt.trim() ? systemPrompt : undefined,
+      temperature: toNumber(temperature),
+      maxTokens: toNumber(maxTokens),
+    });
+  };
+
+  const summary = effective && [
+    effective.model,
+    effective.temperature !== undefined && `temperature ${effective.temperature}`,
+    effective.maxTokens !== undefined && `max ${effective.maxTokens} tokens`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <div>
+          <CardTitle className="text-lg font-medium">Model Settings</CardTitle>
+          {summary && <div className="text-sm text-muted-foreground mt-1">{summary}</div>}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setOpen(o => !o)}>
+          {open ? 'Close' : 'Edit'}
+        </Button>
+      </CardHeader>
+      {open && (
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-3">
+            <label className="block space-y-1 text-sm">
+              <span className="text-muted-foreground">Model</span>
+              <select value={model} onChange={(e) => setModel(e.target.value)} className={`${fieldClass} h-9`}>
+                <option value="">Server default</option>
+                {limits?.models.map(id => <option key={id} value={id}>{id}</option>)}
+                {model && limits && !limits.models.includes(model) && (
+                  <option value={model}>{model} (not allowed)</option>
+                )}
+              </select>
+            </label>
+            <label className="block space-y-1 text-sm">
+              <span className="text-muted-foreground">System prompt</span>
+              <textarea
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                maxLength={limits?.systemPromptMaxChars}
+                placeholder={effective && !settings.systemPrompt ? effective.systemPrompt : 'Server default'}
+                rows={3}
+                className={`${fieldClass} py-2`}
+              />
+            </label>
+            <div className="flex flex-wrap gap-3">
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Temperature</span>
+                <Input
+                  type="number"
+                  min={limits?.temperature.min ?? 0}
+                  max={limits?.temperature.max ?? 2}
+                  step={0.1}
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                  placeholder="Default"
+                  className="h-8 w-28"
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Max tokens</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={limits?.maxTokens}
+                  step={1}
+                  value={maxTokens}
+                  onChange={(e) => setMaxTokens(e.target.value)}
+                  placeholder="Default"
+                  className="h-8 w-28"
+                />
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" size="sm">Save</Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => onSave({ voice: settings.voice })}>
+                Reset to defaults
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { VOICES_PATH, type VoicesResponse } from '@shared/protocol';
+import { serverHttpUrl } from '../utils/serverUrl';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface VoicePickerProps {
+  // The voice the session speaks with, once the server has said
+  current: string | undefined;
+  onSelect: (voice: string) => void;
+}
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ current, onSelect }) => {
+  const [catalog, setCatalog] = useState<VoicesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(serverHttpUrl(VOICES_PATH))
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then((data: VoicesResponse) => { if (!cancelled) setCatalog(data); })
+      .catch(err => {
+        console.error('Failed to load voices:', err);
+        if (!cancelled) setError('Voices unavailable');
+      });
+    return () => {
+      cancelled = true;
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  const togglePreview = (id: string) => {
+    audioRef.current?.pause();
+    if (previewing === id) {
+      setPreviewing(null);
+      return;
+    }
+    // The server synthesizes the sample on first request, so it may take a moment
+    const audio = new Audio();
+    // A CORS request, which the page's require-corp isolation lets through
+    audio.crossOrigin = 'anonymous';
+    audio.src = serverHttpUrl(`${VOICES_PATH}/${encodeURIComponent(id)}/preview`);
+    audioRef.current = audio;
+    setPreviewing(id);
+    audio.onended = () => setPreviewing(p => p === id ? null : p);
+    audio.play().catch(err => {
+      console.error('Voice preview failed:', err);
+      setPreviewing(p => p === id ? null : p);
+    });
+  };
+
+  const selected = current ?? catalog?.defaultVoice;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-medium">Voice</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {error && <Badge variant="destructive">{error}</Badge>}
+        {catalog?.voices.map(voice => (
+          <div
+            key={voice.id}
+            className={cn(
+              "flex items-center gap-1 rounded-md border pl-3 pr-1 py-1",
+              voice.id === selected && "border-primary bg-muted"
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(voice.id)}
+              title={voice.description}
+              className="text-sm font-medium"
+            >
+              {voice.name}
+            </button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => togglePreview(voice.id)}
+              aria-label={`Preview ${voice.name}`}
+            >
+              {previewing === voice.id ? '■' : '▶'}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VoicePicker;
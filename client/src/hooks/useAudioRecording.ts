@@ -1,5 +1,5 @@
 import { useState, useRef, useCallback } from 'react';
-import { processRecordedAudio, normalizeAudio } from '../utils/audioUtils';
+import { processRecordedAudio, normalizeAudio, resampleAudio } from '../utils/audioUtils';
 
 export interface RecordingState {
   status: 'idle' | 'requesting-permission' | 'ready' | 'recording' | 'processing' | 'error';
@@ -18,11 +18,69 @@ export const useAudioRecording = () => {
   const chunksRef = useRef<Blob[]>([]);
   const startTimeRef = useRef<number>(0);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Raw microphone samples, tapped alongside MediaRecorder so the recording
+  // can be transcribed while it is still going
+  const pcmChunksRef = useRef<Float32Array[]>([]);
+  const pcmSampleRateRef = useRef(16000);
+  const pcmTapRef = useRef<{ context: AudioContext; processor: ScriptProcessorNode } | null>(null);
 
   const updateState = useCallback((updates: Partial<RecordingState>) => {
     setState(prev => ({ ...prev, ...updates }));
   }, []);
 
+  const startPcmTap = useCallback((stream: MediaStream) => {
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    // Deprecated, but needs no separate AudioWorklet module
+    const processor = context.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = (event) => {
+      pcmChunksRef.current.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+    };
+    source.connect(processor);
+    processor.connect(context.destination);
+    pcmChunksRef.current = [];
+    pcmSampleRateRef.current = context.sampleRate;
+    pcmTapRef.current = { context, processor };
+  }, []);
+
+  const stopPcmTap = useCallback(() => {
+    if (!pcmTapRef.current) return;
+    pcmTapRef.current.processor.disconnect();
+    pcmTapRef.current.context.close();
+    pcmTapRef.current = null;
+  }, []);
+
+  /**
+   * Seconds of audio recorded so far (or in the last recording, once stopped)
+   */
+  const recordedSeconds = useCallback(() => {
+    const samples = pcmChunksRef.current.reduce((n, chunk) => n + chunk.length, 0);
+    return samples / pcmSampleRateRef.current;
+  }, []);
+
+  /**
+   * The recording from fromSeconds on, as normalized 16kHz PCM
+   */
+  const getRecordedAudio = useCallback(async (fromSeconds: number): Promise<Float32Array> => {
+    let skip = Math.floor(Math.max(0, fromSeconds) * pcmSampleRateRef.current);
+    const parts: Float32Array[] = [];
+    for (const chunk of pcmChunksRef.current) {
+      if (skip >= chunk.length) {
+        skip -= chunk.length;
+        continue;
+      }
+      parts.push(skip ? chunk.subarray(skip) : chunk);
+      skip = 0;
+    }
+    const samples = new Float32Array(parts.reduce((n, part) => n + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part, offset);
+      offset += part.length;
+    }
+    return normalizeAudio(await resampleAudio(samples, pcmSampleRateRef.current, 16000));
+  }, []);
+
   const requestMicrophonePermission = useCallback(async (): Promise<boolean> => {
     if (state.status === 'requesting-permission') return false;
 
@@ -111,6 +169,7 @@ export const useAudioRecording = () => {
 
       // Start recording with data available every 100ms
       mediaRecorderRef.current.start(100);
+      startPcmTap(streamRef.current!);
       startTimeRef.current = Date.now();
 
       // Update duration every 100ms
@@ -135,7 +194,7 @@ export const useAudioRecording = () => {
       });
       return false;
     }
-  }, [state.status, requestMicrophonePermission, updateState]);
+  }, [state.status, requestMicrophonePermission, updateState, startPcmTap]);
 
   const stopRecording = useCallback(async (): Promise<Float32Array | null> => {
     if (state.status !== 'recording' || !mediaRecorderRef.current) {
@@ -183,15 +242,17 @@ export const useAudioRecording = () => {
 
       // Stop recording
       mediaRecorder.stop();
+      stopPcmTap();
       console.log('Recording stopped, processing audio...');
     });
-  }, [state.status, updateState]);
+  }, [state.status, updateState, stopPcmTap]);
 
   const cleanup = useCallback(() => {
     // Stop recording if active
     if (mediaRecorderRef.current && state.status === 'recording') {
       mediaRecorderRef.current.stop();
     }
+    stopPcmTap();
 
     // Clear interval
     if (intervalRef.current) {
@@ -206,12 +267,14 @@ export const useAudioRecording = () => {
     }
 
     updateState({ status: 'idle', duration: 0 });
-  }, [state.status, updateState]);
+  }, [state.status, updateState, stopPcmTap]);
 
   return {
     state,
     startRecording,
     stopRecording,
+    recordedSeconds,
+    getRecordedAudio,
     requestMicrophonePermission,
     cleanup,
     isRecording: state.status === 'recording',
@@ -0,0 +1,39 @@
+import { useState, useCallback } from 'react';
+
+// Model and voice settings the user picked; anything unset uses the server's default
+export interface ChatSettings {
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  voice?: string;
+}
+
+const STORAGE_KEY = 'voice-chat-settings';
+
+const load = (): ChatSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Chat settings kept in localStorage, so they survive reloads.
+ */
+export const useChatSettings = () => {
+  const [settings, setSettings] = useState<ChatSettings>(load);
+
+  const saveSettings = useCallback((next: ChatSettings) => {
+    setSettings(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.warn('Could not save chat settings:', err);
+    }
+  }, []);
+
+  return { settings, saveSettings };
+};
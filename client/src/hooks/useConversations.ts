@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatMessage } from './useWebSocketChat';
+import {
+  deleteConversationLocally,
+  loadConversations,
+  saveConversation,
+  type LocalConversation,
+} from '../utils/conversationDb';
+import {
+  deleteConversation,
+  fetchConversation,
+  listConversations,
+  messagesOf,
+  renameConversation,
+} from '../utils/conversationsApi';
+
+// A sidebar entry. serverOnly ones have no messages here until opened.
+export type ListedConversation = LocalConversation & { serverOnly?: boolean };
+
+const ACTIVE_KEY = 'voice-chat-active-conversation';
+const TITLE_CHARS = 60;
+
+const titleFrom = (messages: ChatMessage[]) => {
+  const prompt = messages.find(m => m.type === 'user')?.content.replace(/\s+/g, ' ').trim() || 'New conversation';
+  return prompt.length > TITLE_CHARS ? `${prompt.slice(0, TITLE_CHARS)}…` : prompt;
+};
+
+const byRecent = (a: ListedConversation, b: ListedConversation) => b.updatedAt - a.updatedAt;
+
+/**
+ * Past conversations, kept in IndexedDB so they survive reloads with or
+ * without server-side storage. Conversations the server has stored but this
+ * browser hasn't seen are listed too, and copied here when opened.
+ */
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<ListedConversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_KEY));
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let local: LocalConversation[] = [];
+      try {
+        local = await loadConversations();
+      } catch (err) {
+        console.error('Failed to load conversations from IndexedDB:', err);
+      }
+      let remote: ListedConversation[] = [];
+      try {
+        const known = new Set(local.map(c => c.serverId));
+        remote = (await listConversations())
+          .filter(c => !known.has(c.id))
+          .map(c => ({
+            id: `server-${c.id}`,
+            title: c.title,
+            createdAt: Date.parse(c.createdAt),
+            updatedAt: Date.parse(c.updatedAt),
+            messages: [],
+            serverId: c.id,
+            serverOnly: true,
+          }));
+      } catch {
+        // The server may not store conversations
+      }
+      if (cancelled) return;
+      setConversations([...local, ...remote].sort(byRecent));
+      setIsLoaded(true);
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const select = useCallback((id: string | null) => {
+    setActiveId(id);
+    if (id) localStorage.setItem(ACTIVE_KEY, id);
+    else localStorage.removeItem(ACTIVE_KEY);
+  }, []);
+
+  // A conversation with its messages, copied from the server first if need be
+  const load = useCallback(async (id: string): Promise<LocalConversation | null> => {
+    const listed = conversations.find(c => c.id === id);
+    if (!listed?.serverOnly || !listed.serverId) return listed ?? null;
+    const stored = await fetchConversation(listed.serverId);
+    const conversation: LocalConversation = {
+      id: listed.id,
+      title: stored.title,
+      createdAt: listed.createdAt,
+      updatedAt: listed.updatedAt,
+      messages: messagesOf(stored),
+      serverId: stored.id,
+    };
+    await saveConversation(conversation);
+    setConversations(prev => prev.map(c => c.id === id ? conversation : c));
+    return conversation;
+  }, [conversations]);
+
+  // Keeps the active conversation's messages, starting a new conversation
+  // with the first ones
+  const record = useCallback((messages: ChatMessage[], serverId: string | null) => {
+    if (!messages.length) return;
+    const current = conversations.find(c => c.id === activeId && !c.serverOnly);
+    const last = messages[messages.length - 1];
+    if (current && current.messages.at(-1)?.id === last.id && (!serverId || current.serverId === serverId)) return;
+
+    const updatedAt = last.timestamp.getTime();
+    const conversation: LocalConversation = current
+      ? { ...current, messages, updatedAt, serverId: serverId ?? current.serverId }
+      : { id: crypto.randomUUID(), title: titleFrom(messages), createdAt: messages[0].timestamp.getTime(), updatedAt, messages, serverId };
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)].sort(byRecent));
+    if (!current) select(conversation.id);
+    saveConversation(conversation).catch(err => console.error('Failed to save conversation:', err));
+  }, [conversations, activeId, select]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    const listed = conversations.find(c => c.id === id);
+    if (!listed) return;
+    if (listed.serverId) await renameConversation(listed.serverId, title);
+    const renamed = { ...listed, title };
+    if (!listed.serverOnly) await saveConversation(renamed);
+    setConversations(prev => prev.map(c => c.id === id ? renamed : c));
+  }, [conversations]);
+
+  const remove = useCallback(async (id: string) => {
+    const listed = conversations.find(c => c.id === id);
+    if (!listed) return;
+    if (listed.serverId) {
+      // Already gone there is fine; the local copy still has to go
+      await deleteConversation(listed.serverId).catch(err => console.warn('Server copy not deleted:', err));
+    }
+    if (!listed.serverOnly) await deleteConversationLocally(id);
+    setConversations(prev => prev.filter(c => c.id !== id));
+  }, [conversations]);
+
+  return { conversations, activeId, isLoaded, select, load, record, rename, remove };
+};
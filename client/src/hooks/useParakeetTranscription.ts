@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback } from 'react';
 import { ParakeetModel, getParakeetModel } from 'parakeet.js';
+import type { TimedWord } from '../utils/transcriptStitching';
 
 export interface TranscriptionState {
   status: 'idle' | 'loading' | 'warming-up' | 'ready' | 'transcribing' | 'error';
@@ -264,10 +265,34 @@ export const useParakeetTranscription = () => {
     }
   }, [state.status, initializeModel, updateState]);
 
+  // Word-timed transcription of one window of a recording in progress. Leaves
+  // the status alone so the UI doesn't flicker between windows.
+  const transcribeWords = useCallback(async (audioData: Float32Array): Promise<TimedWord[] | null> => {
+    if (!modelRef.current) return null;
+
+    try {
+      const result = await modelRef.current.transcribe(audioData, 16000, {
+        returnTimestamps: true,
+        frameStride: 1
+      });
+      if (result.words) {
+        return result.words.map(w => ({ text: w.word, start: w.start_time, end: w.end_time }));
+      }
+      // No word timings: treat the whole window as one word
+      return result.utterance_text.trim()
+        ? [{ text: result.utterance_text, start: 0, end: audioData.length / 16000 }]
+        : [];
+    } catch (error) {
+      console.error('Window transcription failed:', error);
+      return null;
+    }
+  }, []);
+
   return {
     state,
     initializeModel,
     transcribe,
+    transcribeWords,
     isReady: state.status === 'ready',
   };
 };
\ No newline at end of file
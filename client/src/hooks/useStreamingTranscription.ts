@@ -0,0 +1,85 @@
+import { useState, useRef, useCallback } from 'react';
+import { TranscriptStitcher, type TimedWord } from '../utils/transcriptStitching';
+
+interface StreamingTranscriptionOptions {
+  transcribeWords: (audio: Float32Array) => Promise<TimedWord[] | null>;
+  getRecordedAudio: (fromSeconds: number) => Promise<Float32Array>;
+  recordedSeconds: () => number;
+}
+
+// How often a new window is transcribed while recording
+const WINDOW_INTERVAL_MS = 1000;
+// Audio before the last committed word that each window hears again, so the
+// words at its start are recognized in context
+const CONTEXT_SECONDS = 1;
+// Upper bound on a window, e.g. after a long pause with no committed words
+const MAX_WINDOW_SECONDS = 20;
+// Windows shorter than this are too short to recognize anything
+const MIN_WINDOW_SECONDS = 0.3;
+
+/**
+ * Incremental transcription of a recording in progress: every second the
+ * audio since the last committed word goes through the model, and the
+ * results are stitched into a partial transcript. finish() transcribes the
+ * rest and returns the final text.
+ */
+export const useStreamingTranscription = ({ transcribeWords, getRecordedAudio, recordedSeconds }: StreamingTranscriptionOptions) => {
+  const [partialText, setPartialText] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const stitcherRef = useRef<TranscriptStitcher | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Windows run one at a time; this is the one in flight
+  const windowRef = useRef<Promise<void>>(Promise.resolve());
+  const busyRef = useRef(false);
+
+  const transcribeWindow = useCallback(async (final: boolean) => {
+    const stitcher = stitcherRef.current;
+    if (!stitcher) return;
+
+    const end = recordedSeconds();
+    const start = Math.max(0, stitcher.committedUntil - CONTEXT_SECONDS, end - MAX_WINDOW_SECONDS);
+    if (end - start < MIN_WINDOW_SECONDS) return;
+
+    const audio = await getRecordedAudio(start);
+    const words = await transcribeWords(audio);
+    if (!words || stitcherRef.current !== stitcher) return;
+
+    stitcher.add(words, start, start + audio.length / 16000, final);
+    if (!final) setPartialText(stitcher.text);
+  }, [transcribeWords, getRecordedAudio, recordedSeconds]);
+
+  const start = useCallback(() => {
+    stitcherRef.current = new TranscriptStitcher();
+    setPartialText('');
+    setIsStreaming(true);
+
+    timerRef.current = setInterval(() => {
+      if (busyRef.current) return;
+      busyRef.current = true;
+      windowRef.current = transcribeWindow(false).finally(() => { busyRef.current = false; });
+    }, WINDOW_INTERVAL_MS);
+  }, [transcribeWindow]);
+
+  const finish = useCallback(async (): Promise<string> => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    await windowRef.current;
+    await transcribeWindow(true);
+
+    const text = stitcherRef.current?.text ?? '';
+    stitcherRef.current = null;
+    setPartialText('');
+    setIsStreaming(false);
+    return text;
+  }, [transcribeWindow]);
+
+  return {
+    partialText,
+    isStreaming,
+    start,
+    finish,
+  };
+};
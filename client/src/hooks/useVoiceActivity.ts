@@ -0,0 +1,157 @@
+import { useState, useEffect, useRef } from 'react';
+import { normalizeAudio, resampleAudio } from '../utils/audioUtils';
+import { VoiceActivityDetector, levelDb, speechBandRatio, type VadOptions } from '../utils/voiceActivity';
+
+interface VoiceActivityOptions extends VadOptions {
+  // Opens the microphone and keeps it open while true
+  enabled: boolean;
+  // Ignores the microphone, e.g. while the assistant is speaking
+  paused: boolean;
+  // Called with each utterance as normalized 16kHz PCM
+  onUtterance: (audio: Float32Array) => void;
+}
+
+// Audio kept from before speech was detected, so the first syllable isn't cut
+const PRE_ROLL_MS = 300;
+// Time to wait after a pause ends, so the tail of the assistant's audio
+// doesn't count as speech
+const RESUME_DELAY_MS = 300;
+// Utterances are cut off at this length
+const MAX_UTTERANCE_MS = 30000;
+
+/**
+ * Always-on microphone with voice activity detection, for hands-free mode.
+ */
+export const useVoiceActivity = ({ enabled, paused, onUtterance, ...vadOptions }: VoiceActivityOptions) => {
+  const [isListening, setIsListening] = useState(false);
+  const [isHearingSpeech, setIsHearingSpeech] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const detectorRef = useRef(new VoiceActivityDetector(vadOptions));
+  const pausedRef = useRef(paused);
+  const resumeAtRef = useRef(0);
+  const onUtteranceRef = useRef(onUtterance);
+  // The detector needs minSpeechMs of speech before it reports a start, so the
+  // pre-roll covers that too
+  const preRollMsRef = useRef(PRE_ROLL_MS);
+
+  const { sensitivity, trailingSilenceMs, minSpeechMs } = vadOptions;
+  useEffect(() => {
+    detectorRef.current.configure({ sensitivity, trailingSilenceMs, minSpeechMs });
+    preRollMsRef.current = PRE_ROLL_MS + (minSpeechMs ?? 200);
+  }, [sensitivity, trailingSilenceMs, minSpeechMs]);
+
+  useEffect(() => {
+    onUtteranceRef.current = onUtterance;
+  }, [onUtterance]);
+
+  useEffect(() => {
+    if (pausedRef.current && !paused) resumeAtRef.current = performance.now() + RESUME_DELAY_MS;
+    pausedRef.current = paused;
+    if (paused) {
+      detectorRef.current.reset();
+      setIsHearingSpeech(false);
+    }
+  }, [paused]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const detector = detectorRef.current;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+    let closed = false;
+
+    const open = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+        });
+        if (closed) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        context = new AudioContext();
+        const { sampleRate } = context;
+        const source = context.createMediaStreamSource(stream);
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 1024;
+        const spectrum = new Float32Array(analyser.frequencyBinCount);
+        // Deprecated, but needs no separate AudioWorklet module
+        const processor = context.createScriptProcessor(2048, 1, 1);
+        const frameMs = 2048 / sampleRate * 1000;
+
+        let preRoll: Float32Array[] = [];
+        let utterance: Float32Array[] | null = null;
+
+        const emit = async (chunks: Float32Array[]) => {
+          const samples = new Float32Array(chunks.reduce((n, chunk) => n + chunk.length, 0));
+          let offset = 0;
+          for (const chunk of chunks) {
+            samples.set(chunk, offset);
+            offset += chunk.length;
+          }
+          onUtteranceRef.current(normalizeAudio(await resampleAudio(samples, sampleRate, 16000)));
+        };
+
+        processor.onaudioprocess = (event) => {
+          if (pausedRef.current || performance.now() < resumeAtRef.current) {
+            preRoll = [];
+            utterance = null;
+            return;
+          }
+
+          const frame = new Float32Array(event.inputBuffer.getChannelData(0));
+          analyser.getFloatFrequencyData(spectrum);
+          const vadEvent = detector.process(levelDb(frame), speechBandRatio(spectrum, sampleRate), frameMs);
+
+          if (utterance) {
+            utterance.push(frame);
+          } else {
+            preRoll.push(frame);
+            while (preRoll.length * frameMs > preRollMsRef.current) preRoll.shift();
+          }
+
+          if (vadEvent === 'speech_start') {
+            utterance = preRoll;
+            preRoll = [];
+            setIsHearingSpeech(true);
+          } else if (utterance && (vadEvent === 'speech_end' || utterance.length * frameMs > MAX_UTTERANCE_MS)) {
+            const chunks = utterance;
+            utterance = null;
+            detector.reset();
+            setIsHearingSpeech(false);
+            emit(chunks);
+          }
+        };
+
+        source.connect(analyser);
+        source.connect(processor);
+        processor.connect(context.destination);
+        setIsListening(true);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to open microphone for hands-free mode:', err);
+        setError(`Microphone access denied: ${err}`);
+      }
+    };
+
+    open();
+
+    return () => {
+      closed = true;
+      stream?.getTracks().forEach(track => track.stop());
+      context?.close();
+      detector.reset();
+      setIsListening(false);
+      setIsHearingSpeech(false);
+    };
+  }, [enabled]);
+
+  return {
+    isListening: isListening && !paused,
+    isHearingSpeech,
+    error,
+  };
+};
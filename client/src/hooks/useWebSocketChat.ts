@@ -1,28 +1,119 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  AudioFrameFlag,
+  decodeAudioFrame,
+  isFlagSet,
+  payloadSampleCount,
+} from '@shared/audio-frame';
+import {
+  CloseCode,
+  ENCODINGS_QUERY_PARAM,
+  PROTOCOL_QUERY_PARAM,
+  PROTOCOL_VERSION,
+  isSupportedVersion,
+  parseServerMessage,
+  type ClientMessage,
+  type ConversationSummary,
+  type HistoryTurn,
+  type OpenConversationMessage,
+  type SessionConfig,
+  type SessionConfigLimits,
+} from '@shared/protocol';
+import { AudioPayloadDecoder, supportedEncodings } from '../utils/audioDecoding';
+import { serverWebSocketProtocols, serverWebSocketUrl } from '../utils/serverUrl';
+import type { ChatSettings } from './useChatSettings';
+
+export interface ToolActivity {
+  id: string;
+  name: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+  // Length of the reply text when the tool was called, to show it in place
+  textOffset: number;
+}
 
-interface ChatMessage {
+export interface ChatMessage {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  tools?: ToolActivity[];
+  // Speech recognition confidence of a spoken prompt, 0 to 1
+  confidence?: number;
+}
+
+// The assistant's speech in one turn, as the decoded chunks it arrived in
+export interface TurnAudio {
+  sampleRate: number;
+  chunks: Float32Array[];
 }
 
-const useWebSocketChat = () => {
+// The prompt/reply pairs of a chat, to seed the server's history with
+const historyOf = (messages: ChatMessage[]): HistoryTurn[] => messages.flatMap((message, i) => {
+  const next = messages[i + 1];
+  return message.type === 'user' && next?.type === 'assistant' ? [{ prompt: message.content, reply: next.content }] : [];
+});
+
+// What servers before protocol 12 take by default, as they don't say
+const DEFAULT_MAX_FRAME_BYTES = 65_536;
+
+const byteLength = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+// Opens a new conversation seeded with our copy of a chat, leaving out its
+// oldest turns if need be so the message stays within maxBytes
+const seedMessage = (messages: ChatMessage[], maxBytes: number): OpenConversationMessage | null => {
+  const history = historyOf(messages);
+  // Each turn adds its JSON and a comma
+  const sizes = history.map(turn => byteLength(turn) + 1);
+  let size = byteLength({ type: 'open_conversation', conversationId: null, history: [] }) + sizes.reduce((sum, n) => sum + n, 0);
+  while (history.length && size > maxBytes) {
+    history.shift();
+    size -= sizes.shift()!;
+  }
+  return history.length ? { type: 'open_conversation', conversationId: null, history } : null;
+};
+
+const useWebSocketChat = (settings: ChatSettings) => {
   const [isConnected, setIsConnected] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const messagesRef = useRef<ChatMessage[]>([]);
   const [currentResponse, setCurrentResponse] = useState('');
   const [currentUserMessage, setCurrentUserMessage] = useState('');
+  const [currentTools, setCurrentTools] = useState<ToolActivity[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Assistant audio is playing or scheduled
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // The settings the server runs this session with, and what it allows
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig | null>(null);
+  const [configLimits, setConfigLimits] = useState<SessionConfigLimits | null>(null);
+  // The stored conversation new turns go to; null until a new one's first turn
+  const [conversation, setConversation] = useState<ConversationSummary | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
+  const maxFrameBytesRef = useRef(DEFAULT_MAX_FRAME_BYTES);
   
   const isProcessingComplete = useRef(false);
   const currentUserMessageRef = useRef('');
   const currentResponseRef = useRef('');
+  const currentToolsRef = useRef<ToolActivity[]>([]);
+  const currentConfidenceRef = useRef<number | undefined>(undefined);
+  // Speech of the current turn, and of each assistant message heard this
+  // session, for audio exports
+  const currentAudioRef = useRef<TurnAudio>({ sampleRate: 0, chunks: [] });
+  const messageAudioRef = useRef(new Map<string, TurnAudio>());
 
   const wsRef = useRef<WebSocket | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const nextPlayTimeRef = useRef(0);
   const audioSourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  // Turn whose audio should play; frames from any other turn are stale
+  const activeTurnRef = useRef<number | null>(null);
+  const turnCounterRef = useRef(0);
+  // Where the next frame should continue, to spot dropped audio
+  const expectedFrameRef = useRef<{ turnId: number; utteranceId: number; sequence: number; sampleOffset: number } | null>(null);
+  const versionRejectedRef = useRef(false);
+  const audioDecoderRef = useRef(new AudioPayloadDecoder());
 
   // Initialize audio context
   const initAudioContext = useCallback(async () => {
@@ -36,12 +127,52 @@ const useWebSocketChat = () => {
 
   // Play audio chunk immediately
   const playAudioChunk = useCallback(async (arrayBuffer: ArrayBuffer) => {
+    const frame = decodeAudioFrame(arrayBuffer);
+    if (!frame) {
+      console.warn('Dropping binary message without an audio frame header');
+      return;
+    }
+    const { header, payload } = frame;
+
+    // Audio from a response that was stopped or superseded
+    const isStale = () => !isFlagSet(header, AudioFrameFlag.Broadcast) && header.turnId !== activeTurnRef.current;
+    if (isStale()) return;
+
+    const expected = expectedFrameRef.current;
+    if (expected && expected.turnId === header.turnId) {
+      if (header.utteranceId !== expected.utteranceId || header.sequence !== expected.sequence) {
+        console.warn(`Audio gap in turn ${header.turnId}: expected utterance ${expected.utteranceId} frame ${expected.sequence}, got utterance ${header.utteranceId} frame ${header.sequence}`);
+      } else if (header.sampleOffset !== expected.sampleOffset) {
+        console.warn(`Audio gap in turn ${header.turnId}: ${header.sampleOffset - expected.sampleOffset} samples missing`);
+      }
+    }
+
+    const sampleCount = payloadSampleCount(header.format, payload);
+    if (sampleCount === undefined) {
+      console.warn('Dropping audio frame with unsupported sample format', header.format);
+      return;
+    }
+    const ended = isFlagSet(header, AudioFrameFlag.EndOfUtterance);
+    expectedFrameRef.current = {
+      turnId: header.turnId,
+      utteranceId: ended ? header.utteranceId + 1 : header.utteranceId,
+      sequence: ended ? 0 : header.sequence + 1,
+      sampleOffset: header.sampleOffset + sampleCount,
+    };
+    if (!sampleCount) return;
+
     await initAudioContext();
     const audioContext = audioContextRef.current!;
 
     try {
-      // Convert ArrayBuffer to Float32Array (f32le format)
-      const pcmData = new Float32Array(arrayBuffer);
+      const decoded = await audioDecoderRef.current.decode(header.format, payload);
+      // The turn may have been stopped while the frame was decoding
+      if (!decoded || isStale()) return;
+      const pcmData = decoded.samples;
+      if (!isFlagSet(header, AudioFrameFlag.Broadcast)) {
+        currentAudioRef.current.sampleRate = decoded.sampleRate;
+        currentAudioRef.current.chunks.push(pcmData);
+      }
       
       // Debug: Check audio data
       const minVal = Math.min(...pcmData);
@@ -67,7 +198,7 @@ const useWebSocketChat = () => {
       }
 
       // Create AudioBuffer with processed data
-      const audioBuffer = audioContext.createBuffer(1, processedData.length, 24000);
+      const audioBuffer = audioContext.createBuffer(1, processedData.length, decoded.sampleRate);
       audioBuffer.copyToChannel(processedData, 0);
 
       // Create source
@@ -77,6 +208,7 @@ const useWebSocketChat = () => {
 
       // Add to tracking array for cleanup
       audioSourcesRef.current.push(source);
+      setIsSpeaking(true);
 
       // Clean up after playback ends
       source.onended = () => {
@@ -84,6 +216,7 @@ const useWebSocketChat = () => {
         if (index > -1) {
           audioSourcesRef.current.splice(index, 1);
         }
+        if (audioSourcesRef.current.length === 0) setIsSpeaking(false);
         // console.log('Audio chunk finished playing');
       };
 
@@ -100,6 +233,74 @@ const useWebSocketChat = () => {
     }
   }, [initAudioContext]);
 
+  // Stop all currently playing audio sources
+  const stopAudio = useCallback(() => {
+    audioSourcesRef.current.forEach(source => {
+      try {
+        source.stop();
+        source.disconnect();
+      } catch {
+        // Source may have already finished, ignore error
+      }
+    });
+    audioSourcesRef.current = [];
+    // The next turn starts playing right away, not after what was cut off
+    nextPlayTimeRef.current = 0;
+    setIsSpeaking(false);
+  }, []);
+
+  // Move the current exchange into the chat history
+  const completeTurn = useCallback(() => {
+    // Prevent duplicate processing
+    if (isProcessingComplete.current) {
+      console.log('Ignoring duplicate text_complete');
+      return;
+    }
+    isProcessingComplete.current = true;
+    
+    setIsStreaming(false);
+    console.log('Text streaming complete, final response:', currentResponseRef.current);
+    
+    // Use refs for stable values
+    const userMessage = currentUserMessageRef.current;
+    const finalResponse = currentResponseRef.current;
+    const tools = currentToolsRef.current;
+    const confidence = currentConfidenceRef.current;
+    
+    console.log('Final response being saved:', finalResponse);
+    console.log('User message being saved:', userMessage);
+    
+    // Add both user message and assistant response to chat history
+    const now = Date.now();
+    // Audio may still be arriving; it goes on into the same chunks
+    messageAudioRef.current.set(`assistant-${now}`, currentAudioRef.current);
+    setMessages(prev => [
+      ...prev,
+      {
+        id: `user-${now}`,
+        type: 'user',
+        content: userMessage,
+        ...(confidence !== undefined && { confidence }),
+        timestamp: new Date(now)
+      },
+      {
+        id: `assistant-${now}`,
+        type: 'assistant', 
+        content: finalResponse,
+        ...(tools.length && { tools }),
+        timestamp: new Date(now + 1)
+      }
+    ]);
+    
+    // Clear current states
+    setCurrentResponse('');
+    setCurrentUserMessage('');
+    currentResponseRef.current = '';
+    setCurrentTools([]);
+    currentToolsRef.current = [];
+    currentUserMessageRef.current = '';
+  }, []);
+
   // Handle incoming messages
   const handleMessage = useCallback((event: MessageEvent) => {
     // Check if binary audio data
@@ -117,14 +318,22 @@ const useWebSocketChat = () => {
 
     // Handle JSON messages
     try {
-      const data = JSON.parse(event.data);
+      const data = parseServerMessage(event.data);
 
       console.log('Received message:', data.type, data);
 
       switch (data.type) {
         case 'connected':
-          console.log('Connected:', data.clientId);
+          if (!isSupportedVersion(data.protocolVersion)) {
+            console.error(`Server speaks protocol ${data.protocolVersion}, client supports ${PROTOCOL_VERSION}`);
+            setError('Server version not supported, please reload');
+            versionRejectedRef.current = true;
+            wsRef.current?.close(CloseCode.UnsupportedVersion, 'Unsupported protocol version');
+            return;
+          }
+          console.log('Connected:', data.clientId, `(protocol ${data.protocolVersion})`);
           console.log('Audio format:', data.audioFormat);
+          maxFrameBytesRef.current = data.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES;
           setIsConnected(true);
           setError(null);
           break;
@@ -139,66 +348,101 @@ const useWebSocketChat = () => {
           break;
 
         case 'text_complete':
-          // Prevent duplicate processing
-          if (isProcessingComplete.current) {
-            console.log('Ignoring duplicate text_complete');
-            return;
+          completeTurn();
+          break;
+
+        case 'cancelled':
+          console.log('Server cancelled the current response');
+          break;
+
+        case 'tool_call':
+          currentToolsRef.current = [...currentToolsRef.current, {
+            id: data.toolCallId,
+            name: data.toolName,
+            input: data.input,
+            textOffset: currentResponseRef.current.length,
+          }];
+          setCurrentTools(currentToolsRef.current);
+          break;
+
+        case 'tool_result':
+          currentToolsRef.current = currentToolsRef.current.map(tool => tool.id === data.toolCallId
+            ? { ...tool, output: data.output, error: data.error }
+            : tool);
+          setCurrentTools(currentToolsRef.current);
+          break;
+
+        case 'configured':
+          setSessionConfig(data.config);
+          setConfigLimits(data.limits);
+          break;
+
+        case 'moderation': {
+          if (data.turnId !== activeTurnRef.current) break;
+          const reason = data.reason.replace('_', ' ');
+          if (data.target === 'prompt' && data.action === 'blocked') {
+            // No turn was started, so there is nothing to keep
+            isProcessingComplete.current = true;
+            setIsStreaming(false);
+            setCurrentUserMessage('');
+            currentUserMessageRef.current = '';
+            setError(`Message blocked (${reason})`);
+          } else if (data.target === 'prompt' && data.text !== undefined) {
+            // Show the prompt the assistant actually got
+            setCurrentUserMessage(data.text);
+            currentUserMessageRef.current = data.text;
+          } else if (data.action === 'blocked') {
+            setError(`Reply stopped (${reason})`);
           }
-          isProcessingComplete.current = true;
-          
-          setIsStreaming(false);
-          console.log('Text streaming complete, final response:', currentResponseRef.current);
-          
-          // Use refs for stable values
-          const userMessage = currentUserMessageRef.current;
-          const finalResponse = currentResponseRef.current;
-          
-          console.log('Final response being saved:', finalResponse);
-          console.log('User message being saved:', userMessage);
-          
-          // Add both user message and assistant response to chat history
-          const now = Date.now();
-          setMessages(prev => [
-            ...prev,
-            {
-              id: `user-${now}`,
-              type: 'user',
-              content: userMessage,
-              timestamp: new Date(now)
-            },
-            {
-              id: `assistant-${now}`,
-              type: 'assistant', 
-              content: finalResponse,
-              timestamp: new Date(now + 1)
-            }
-          ]);
-          
-          // Clear current states
-          setCurrentResponse('');
-          setCurrentUserMessage('');
-          currentResponseRef.current = '';
-          currentUserMessageRef.current = '';
+          break;
+        }
+
+        case 'conversation':
+          setConversation(data.conversation);
+          conversationIdRef.current = data.conversation?.id ?? null;
+          break;
+
+        case 'reset_complete':
+          console.log('Server conversation history cleared');
           break;
 
         case 'error':
+          if (data.code === 'unsupported_version') {
+            versionRejectedRef.current = true;
+          }
+          // Deleted elsewhere; carry on from our copy, or else the next turn
+          // starts a new one
+          if (data.code === 'unknown_conversation') {
+            setConversation(null);
+            conversationIdRef.current = null;
+            const seed = seedMessage(messagesRef.current, maxFrameBytesRef.current);
+            if (seed) {
+              wsRef.current?.send(JSON.stringify(seed));
+              break;
+            }
+          }
           setError(data.message);
+          // The message says when to retry; clear it once that time has come
+          if (data.code === 'rate_limited' && data.retryAfterMs !== undefined) {
+            setTimeout(() => setError(current => current === data.message ? null : current), data.retryAfterMs);
+          }
           setIsStreaming(false);
           break;
-
-        default:
-          console.warn('Unknown message type:', data.type);
       }
     } catch (err) {
-      console.error('Failed to parse JSON:', err);
+      console.error('Rejected server message:', err);
     }
-  }, []);
+  }, [playAudioChunk, completeTurn]);
 
   // Connect to WebSocket
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return;
 
-    wsRef.current = new WebSocket('ws://localhost:3000');
+    const encodings = supportedEncodings().join(',');
+    wsRef.current = new WebSocket(
+      serverWebSocketUrl(`${PROTOCOL_QUERY_PARAM}=${PROTOCOL_VERSION}&${ENCODINGS_QUERY_PARAM}=${encodings}`),
+      serverWebSocketProtocols(),
+    );
 
     wsRef.current.onopen = () => {
       console.log('WebSocket connected');
@@ -206,9 +450,16 @@ const useWebSocketChat = () => {
 
     wsRef.current.onmessage = handleMessage;
 
-    wsRef.current.onclose = () => {
+    wsRef.current.onclose = (event) => {
       console.log('WebSocket disconnected');
       setIsConnected(false);
+      // Reconnecting can't fix a version mismatch, only a reload can
+      if (event.code === CloseCode.UnsupportedVersion || versionRejectedRef.current) return;
+      // Nor a missing or wrong token
+      if (event.code === CloseCode.Unauthorized) {
+        setError('Not authorized: set VITE_AUTH_TOKEN to a token the server accepts');
+        return;
+      }
       // Auto-reconnect after 3 seconds
       setTimeout(connect, 3000);
     };
@@ -219,8 +470,13 @@ const useWebSocketChat = () => {
     };
   }, [handleMessage]);
 
+  const send = useCallback((message: ClientMessage) => {
+    wsRef.current?.send(JSON.stringify(message));
+  }, []);
+
   // Send chat message
-  const sendMessage = useCallback(async (prompt: string) => {
+  // confidence is the speech recognizer's, when the prompt was spoken
+  const sendMessage = useCallback(async (prompt: string, confidence?: number) => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
       setError('Not connected to server');
       return;
@@ -229,16 +485,9 @@ const useWebSocketChat = () => {
     // Initialize AudioContext with user gesture (required by browsers)
     await initAudioContext();
 
-    // Stop all currently playing audio sources
-    audioSourcesRef.current.forEach(source => {
-      try {
-        source.stop();
-        source.disconnect();
-      } catch {
-        // Source may have already finished, ignore error
-      }
-    });
-    audioSourcesRef.current = [];
+    stopAudio();
+    const turnId = ++turnCounterRef.current;
+    activeTurnRef.current = turnId;
 
     // Reset state for new message
     setCurrentResponse('');
@@ -247,7 +496,11 @@ const useWebSocketChat = () => {
     setError(null);
     isProcessingComplete.current = false; // Reset flag for new message
     currentResponseRef.current = '';
+    setCurrentTools([]);
+    currentToolsRef.current = [];
     currentUserMessageRef.current = prompt;
+    currentConfidenceRef.current = confidence;
+    currentAudioRef.current = { sampleRate: 0, chunks: [] };
     
     // Reset timing to current audio context time (not 0)
     if (audioContextRef.current) {
@@ -256,14 +509,107 @@ const useWebSocketChat = () => {
       nextPlayTimeRef.current = 0;
     }
 
-    wsRef.current.send(JSON.stringify({
-      type: 'chat',
-      prompt: prompt
-    }));
-  }, [initAudioContext]);
+    send({ type: 'chat', prompt, turnId });
+  }, [initAudioContext, stopAudio, send]);
+
+  // Stop generating and speaking the current response, keeping what was shown:
+  // audio playing or scheduled here goes, and cancel drops the phrases the
+  // server has yet to speak
+  const stop = useCallback(() => {
+    stopAudio();
+    activeTurnRef.current = null;
+
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      send({ type: 'cancel' });
+    }
+    if (!isProcessingComplete.current && currentUserMessageRef.current) {
+      completeTurn();
+    }
+  }, [stopAudio, completeTurn, send]);
+
+  // Drops the reply in progress and shows these messages instead
+  const replaceMessages = useCallback((next: ChatMessage[]) => {
+    stopAudio();
+    activeTurnRef.current = null;
+    setMessages(next);
+    setCurrentResponse('');
+    setCurrentUserMessage('');
+    setIsStreaming(false);
+    setError(null);
+    isProcessingComplete.current = true;
+    currentResponseRef.current = '';
+    setCurrentTools([]);
+    currentToolsRef.current = [];
+    currentUserMessageRef.current = '';
+  }, [stopAudio]);
+
+  // Forget the conversation on both ends and start over
+  const resetConversation = useCallback(() => {
+    replaceMessages([]);
+    setConversation(null);
+    conversationIdRef.current = null;
+
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      send({ type: 'reset' });
+    }
+  }, [replaceMessages, send]);
+
+  // Tells the server which conversation to continue. One it stores goes by
+  // id alone, and is seeded from our copy only if it turns out to be gone.
+  const sendOpenConversation = useCallback(() => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    const conversationId = conversationIdRef.current;
+    const message = conversationId
+      ? { type: 'open_conversation' as const, conversationId }
+      : seedMessage(messagesRef.current, maxFrameBytesRef.current);
+    if (message) send(message);
+  }, [send]);
+
+  // Continue an earlier conversation where it left off. serverId is the
+  // server's copy, if it stores conversations.
+  const loadConversation = useCallback((next: ChatMessage[], serverId: string | null) => {
+    replaceMessages(next);
+    messagesRef.current = next;
+    // Until the server confirms it
+    setConversation(null);
+    conversationIdRef.current = serverId;
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    if (serverId || next.length) sendOpenConversation();
+    else send({ type: 'reset' });
+  }, [replaceMessages, sendOpenConversation, send]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // What was heard of an assistant message, if it was spoken this session
+  const messageAudio = useCallback((messageId: string): TurnAudio | null => {
+    const audio = messageAudioRef.current.get(messageId);
+    return audio?.chunks.length ? audio : null;
+  }, []);
+
+  // Each connection starts out in a new conversation; carry on with ours
+  useEffect(() => {
+    if (isConnected) sendOpenConversation();
+  }, [isConnected, sendOpenConversation]);
+
+  // Send the settings on every (re)connect and whenever they change; unset
+  // ones go as null so the server falls back to its defaults
+  useEffect(() => {
+    if (!isConnected) return;
+    send({
+      type: 'configure',
+      model: settings.model ?? null,
+      systemPrompt: settings.systemPrompt ?? null,
+      temperature: settings.temperature ?? null,
+      maxTokens: settings.maxTokens ?? null,
+      voice: settings.voice ?? null,
+    });
+  }, [isConnected, settings, send]);
 
   // Initialize connection on mount
   useEffect(() => {
+    const audioDecoder = audioDecoderRef.current;
     connect();
 
     return () => {
@@ -273,6 +619,7 @@ const useWebSocketChat = () => {
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
+      audioDecoder.close();
     };
   }, [connect]);
 
@@ -281,9 +628,18 @@ const useWebSocketChat = () => {
     messages,
     currentResponse,
     currentUserMessage,
+    currentTools,
     isStreaming,
+    isSpeaking,
+    sessionConfig,
+    configLimits,
+    conversation,
     error,
-    sendMessage
+    sendMessage,
+    stop,
+    resetConversation,
+    loadConversation,
+    messageAudio
   };
 };
 
@@ -0,0 +1,100 @@
+// Decoding of the audio encodings the server can send (see shared/audio-frame.ts)
+
+import {
+  AUDIO_ENCODINGS,
+  AudioSampleFormat,
+  OPUS_FRAME_SAMPLES,
+  splitOpusPackets,
+  type AudioEncoding,
+} from '@shared/audio-frame';
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Encodings this browser can play, most preferred first. Opus needs WebCodecs.
+ */
+export function supportedEncodings(): AudioEncoding[] {
+  const encodings: AudioEncoding[] = ['s16le', 'f32le'];
+  return typeof AudioDecoder === 'undefined' ? encodings : ['opus', ...encodings];
+}
+
+// G.711 mu-law byte to a sample in [-1, 1]
+const MULAW_TABLE = Float32Array.from({ length: 256 }, (_, i) => {
+  const byte = ~i & 0xff;
+  const exponent = (byte >> 4) & 0x07;
+  const magnitude = ((((byte & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return (byte & 0x80 ? -magnitude : magnitude) / 32768;
+});
+
+/**
+ * Decodes audio frame payloads to Float32 samples. Opus goes through a
+ * WebCodecs decoder, one payload at a time so chunks come out in order.
+ */
+export class AudioPayloadDecoder {
+  private opus: AudioDecoder | null = null;
+  private opusOutput: AudioData[] = [];
+  private opusTimestamp = 0;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  decode(format: AudioSampleFormat, payload: ArrayBuffer): Promise<DecodedAudio | null> {
+    switch (format) {
+      case AudioSampleFormat.F32LE:
+        return Promise.resolve({ samples: new Float32Array(payload), sampleRate: AUDIO_ENCODINGS.f32le.sampleRate });
+      case AudioSampleFormat.S16LE:
+        return Promise.resolve({
+          samples: Float32Array.from(new Int16Array(payload), s => s / 32768),
+          sampleRate: AUDIO_ENCODINGS.s16le.sampleRate,
+        });
+      case AudioSampleFormat.Mulaw:
+        return Promise.resolve({
+          samples: Float32Array.from(new Uint8Array(payload), b => MULAW_TABLE[b]),
+          sampleRate: AUDIO_ENCODINGS.mulaw.sampleRate,
+        });
+      case AudioSampleFormat.Opus:
+        return this.decodeOpus(payload);
+      default:
+        return Promise.resolve(null);
+    }
+  }
+
+  close() {
+    if (this.opus?.state !== 'closed') this.opus?.close();
+    this.opus = null;
+  }
+
+  private decodeOpus(payload: ArrayBuffer): Promise<DecodedAudio> {
+    const run = this.tail.then(async () => {
+      const decoder = this.opusDecoder();
+      for (const packet of splitOpusPackets(payload)) {
+        decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: this.opusTimestamp, data: packet }));
+        this.opusTimestamp += OPUS_FRAME_SAMPLES * 1e6 / AUDIO_ENCODINGS.opus.sampleRate;
+      }
+      await decoder.flush();
+
+      const chunks = this.opusOutput.splice(0);
+      const samples = new Float32Array(chunks.reduce((n, chunk) => n + chunk.numberOfFrames, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        chunk.copyTo(samples.subarray(offset, offset + chunk.numberOfFrames), { planeIndex: 0, format: 'f32-planar' });
+        offset += chunk.numberOfFrames;
+        chunk.close();
+      }
+      return { samples, sampleRate: chunks[0]?.sampleRate ?? AUDIO_ENCODINGS.opus.sampleRate };
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+
+  private opusDecoder(): AudioDecoder {
+    if (this.opus && this.opus.state !== 'closed') return this.opus;
+    this.opus = new AudioDecoder({
+      output: data => this.opusOutput.push(data),
+      error: error => console.error('Opus decoder error:', error),
+    });
+    this.opus.configure({ codec: 'opus', sampleRate: AUDIO_ENCODINGS.opus.sampleRate, numberOfChannels: 1 });
+    return this.opus;
+  }
+}
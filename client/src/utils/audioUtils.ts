@@ -48,7 +48,7 @@ export async function decodeAudio(audioData: Response | Blob): Promise<Float32Ar
 /**
  * Simple linear resampling (for more complex use cases, consider using a dedicated library)
  */
-async function resampleAudio(inputData: Float32Array, inputSampleRate: number, outputSampleRate: number): Promise<Float32Array> {
+export async function resampleAudio(inputData: Float32Array, inputSampleRate: number, outputSampleRate: number): Promise<Float32Array> {
   if (inputSampleRate === outputSampleRate) {
     return inputData;
   }
@@ -0,0 +1,48 @@
+import type { ChatMessage } from '../hooks/useWebSocketChat';
+
+// A conversation as this browser keeps it
+export interface LocalConversation {
+  id: string;
+  title: string;
+  // Epoch milliseconds
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  // The server's copy, when it stores conversations
+  serverId: string | null;
+}
+
+const DB_NAME = 'voice-chat';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = () => db ??= new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => {
+    db = null;
+    reject(request.error);
+  };
+});
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const store = (await openDb()).transaction(STORE, mode).objectStore(STORE);
+  return new Promise<T>((resolve, reject) => {
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadConversations = () => run<LocalConversation[]>('readonly', store => store.getAll());
+
+export const saveConversation = async (conversation: LocalConversation) => {
+  await run('readwrite', store => store.put(conversation));
+};
+
+export const deleteConversationLocally = async (id: string) => {
+  await run('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,37 @@
+import type { ExportedConversation } from '@shared/conversation-export';
+import { encodeWav } from '@shared/wav';
+import type { ChatMessage, TurnAudio } from '../hooks/useWebSocketChat';
+
+export const exportOf = (title: string, messages: ChatMessage[]): ExportedConversation => ({
+  title,
+  exportedAt: new Date().toISOString(),
+  messages: messages.map(message => ({
+    role: message.type,
+    content: message.content,
+    timestamp: message.timestamp.toISOString(),
+    ...(message.confidence !== undefined && { confidence: message.confidence }),
+    ...(message.tools?.length && {
+      tools: message.tools.map(({ name, input, output, error }) => ({ name, input, output, error })),
+    }),
+  })),
+});
+
+export const wavOf = (audio: TurnAudio) => {
+  const samples = new Float32Array(audio.chunks.reduce((n, chunk) => n + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of audio.chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return encodeWav(samples, audio.sampleRate);
+};
+
+export const download = (fileName: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the download a moment to start
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
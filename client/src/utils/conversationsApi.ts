@@ -0,0 +1,49 @@
+import {
+  CONVERSATIONS_PATH,
+  type ConversationDetail,
+  type ConversationSummary,
+  type ConversationsResponse,
+} from '@shared/protocol';
+import type { ChatMessage } from '../hooks/useWebSocketChat';
+import { serverFetch } from './serverUrl';
+
+const pathOf = (id: string) => `${CONVERSATIONS_PATH}/${encodeURIComponent(id)}`;
+
+const checked = async (res: Response) => {
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+  return res;
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  const res = await checked(await serverFetch(CONVERSATIONS_PATH));
+  return ((await res.json()) as ConversationsResponse).conversations;
+};
+
+export const fetchConversation = async (id: string): Promise<ConversationDetail> =>
+  (await checked(await serverFetch(pathOf(id)))).json();
+
+export const renameConversation = async (id: string, title: string): Promise<ConversationSummary> =>
+  (await checked(await serverFetch(pathOf(id), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title }),
+  }))).json();
+
+export const deleteConversation = async (id: string) => {
+  await checked(await serverFetch(pathOf(id), { method: 'DELETE' }));
+};
+
+// How a stored conversation shows in the chat history
+export const messagesOf = (conversation: ConversationDetail): ChatMessage[] => conversation.turns.flatMap((turn): ChatMessage[] => {
+  const startedAt = Date.parse(turn.startedAt);
+  return [
+    { id: `user-${conversation.id}-${turn.index}`, type: 'user', content: turn.prompt, timestamp: new Date(startedAt) },
+    {
+      id: `assistant-${conversation.id}-${turn.index}`,
+      type: 'assistant',
+      content: turn.reply,
+      ...(turn.tools.length && { tools: turn.tools }),
+      timestamp: new Date(startedAt + turn.timings.totalMs),
+    },
+  ];
+});
@@ -0,0 +1,23 @@
+import { AUTH_SUBPROTOCOL_PREFIX, SUBPROTOCOL } from '@shared/protocol';
+
+// Where the voice server runs; in development Vite serves the client elsewhere
+const SERVER_HOST = 'localhost:3000';
+
+export const serverWebSocketUrl = (query: string) => `ws://${SERVER_HOST}/?${query}`;
+
+// Browsers can't set headers on a WebSocket, so the token rides in the
+// subprotocol list, which unlike the URL stays out of server logs
+export const serverWebSocketProtocols = (): string[] | undefined => {
+  const token = import.meta.env.VITE_AUTH_TOKEN;
+  return token ? [SUBPROTOCOL, `${AUTH_SUBPROTOCOL_PREFIX}${token}`] : undefined;
+};
+
+export const serverHttpUrl = (path: string) => `http://${SERVER_HOST}${path}`;
+
+// fetch() against the server, with the token for routes that need one
+export const serverFetch = (path: string, init: RequestInit = {}) => {
+  const token = import.meta.env.VITE_AUTH_TOKEN;
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(serverHttpUrl(path), { ...init, headers });
+};
@@ -0,0 +1,48 @@
+// Stitching of transcripts from overlapping audio windows
+
+export interface TimedWord {
+  text: string;
+  // Seconds
+  start: number;
+  end: number;
+}
+
+/**
+ * Joins transcripts of overlapping windows of one recording into a running
+ * transcript. Word timestamps place every window on the recording's timeline;
+ * words that end far enough behind the live edge are committed, and later
+ * windows only contribute words after the last committed one.
+ */
+export class TranscriptStitcher {
+  private committed: TimedWord[] = [];
+  private tentative: TimedWord[] = [];
+
+  constructor(private stabilitySeconds = 1.5) {}
+
+  // End of the last committed word, in seconds from the start of the recording
+  get committedUntil(): number {
+    return this.committed.at(-1)?.end ?? 0;
+  }
+
+  /**
+   * Adds a window's words, timed relative to windowStart. A final window
+   * commits everything it heard.
+   */
+  add(words: TimedWord[], windowStart: number, windowEnd: number, final = false) {
+    const committedUntil = this.committedUntil;
+    const fresh = words
+      .map(word => ({ ...word, start: word.start + windowStart, end: word.end + windowStart }))
+      // Words re-heard in the overlap were already committed by an earlier window
+      .filter(word => (word.start + word.end) / 2 > committedUntil);
+
+    const stableUntil = final ? Infinity : windowEnd - this.stabilitySeconds;
+    const firstUnstable = fresh.findIndex(word => word.end > stableUntil);
+    const stable = firstUnstable === -1 ? fresh : fresh.slice(0, firstUnstable);
+    this.committed.push(...stable);
+    this.tentative = fresh.slice(stable.length);
+  }
+
+  get text(): string {
+    return [...this.committed, ...this.tentative].map(word => word.text.trim()).filter(Boolean).join(' ');
+  }
+}
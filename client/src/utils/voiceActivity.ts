@@ -0,0 +1,94 @@
+// Voice activity detection for hands-free mode
+
+export interface VadOptions {
+  // 0 picks up only loud, clear speech; 1 picks up quiet speech (and more noise)
+  sensitivity: number;
+  // Silence after speech that ends an utterance
+  trailingSilenceMs: number;
+  // Speech needed before an utterance starts, so clicks and bumps don't count
+  minSpeechMs?: number;
+}
+
+export type VadEvent = 'speech_start' | 'speech_end' | null;
+
+/**
+ * Fraction of the spectrum's power that falls in the speech band (300-3400 Hz),
+ * from AnalyserNode dB magnitudes
+ */
+export function speechBandRatio(spectrumDb: Float32Array, sampleRate: number): number {
+  const binHz = sampleRate / 2 / spectrumDb.length;
+  let band = 0;
+  let total = 0;
+  for (let i = 0; i < spectrumDb.length; i++) {
+    const hz = i * binHz;
+    if (hz < 80 || hz > 8000) continue;
+    const power = Math.pow(10, spectrumDb[i] / 10);
+    total += power;
+    if (hz >= 300 && hz <= 3400) band += power;
+  }
+  return total > 0 ? band / total : 0;
+}
+
+/**
+ * RMS level of a frame in dBFS
+ */
+export function levelDb(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return 10 * Math.log10(sum / Math.max(1, frame.length) + 1e-10);
+}
+
+/**
+ * Energy and spectral voice activity detector. A frame is speech when its
+ * level is far enough above the tracked noise floor and most of its power is
+ * in the speech band. An utterance starts after minSpeechMs of speech frames
+ * and ends after trailingSilenceMs without one.
+ */
+export class VoiceActivityDetector {
+  private noiseFloorDb = -60;
+  private speaking = false;
+  private speechMs = 0;
+  private silenceMs = 0;
+
+  constructor(private options: VadOptions) {}
+
+  configure(options: VadOptions) {
+    this.options = options;
+  }
+
+  // Forget the current utterance, e.g. after the microphone was paused
+  reset() {
+    this.speaking = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+
+  process(frameLevelDb: number, bandRatio: number, frameMs: number): VadEvent {
+    const { sensitivity, trailingSilenceMs, minSpeechMs = 200 } = this.options;
+    const s = Math.min(1, Math.max(0, sensitivity));
+    const isSpeech = frameLevelDb > this.noiseFloorDb + 20 - 14 * s && bandRatio > 0.6 - 0.2 * s;
+
+    if (!isSpeech) {
+      // The floor drops quickly and rises slowly, so speech doesn't raise it
+      const rate = frameLevelDb < this.noiseFloorDb ? 0.5 : 0.02;
+      this.noiseFloorDb += (frameLevelDb - this.noiseFloorDb) * rate;
+    }
+
+    if (!this.speaking) {
+      this.speechMs = isSpeech ? this.speechMs + frameMs : 0;
+      if (this.speechMs >= minSpeechMs) {
+        this.speaking = true;
+        this.silenceMs = 0;
+        return 'speech_start';
+      }
+      return null;
+    }
+
+    this.silenceMs = isSpeech ? 0 : this.silenceMs + frameMs;
+    if (this.silenceMs >= trailingSilenceMs) {
+      this.reset();
+      return 'speech_end';
+    }
+    return null;
+  }
+}
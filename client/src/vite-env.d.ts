@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Token for servers that require one (AUTH_TOKENS / AUTH_KEYS_FILE)
+  readonly VITE_AUTH_TOKEN?: string;
+}
@@ -13,7 +13,9 @@ from dataclasses import dataclass
 import json
 import os
 import queue
+import struct
 import sys
+import threading
 import time
 
 import mlx.core as mx
@@ -66,6 +68,7 @@ class TTSGen:
     tts_model: TTSModel
     attributes: tp.Sequence[ConditionAttributes]
     on_frame: tp.Optional[tp.Callable[[mx.array], None]] = None
+    temp: tp.Optional[float] = None
 
     def __post_init__(self):
         tts_model = self.tts_model
@@ -115,11 +118,12 @@ class TTSGen:
                 out_tokens.append(out_token)
             text_tokens[:] = mx.array(out_tokens, dtype=mx.int64)
 
+        temp = tts_model.temp if self.temp is None else self.temp
         self.lm_gen = LmGen(
             tts_model.lm,
             max_steps=tts_model.max_gen_length,
-            text_sampler=Sampler(temp=tts_model.temp),
-            audio_sampler=Sampler(temp=tts_model.temp),
+            text_sampler=Sampler(temp=temp),
+            audio_sampler=Sampler(temp=temp),
             cfg_coef=tts_model.cfg_coef,
             on_text_hook=_on_text_hook,
             on_audio_hook=_on_audio_hook,
@@ -167,12 +171,37 @@ def log(level: str, msg: str):
     print(make_log(level, msg), file=sys.stderr)
 
 
+class Cancelled(Exception):
+    pass
+
+
+class JsonlChannel:
+    """Framed messages on stdout for the jsonl mode.
+
+    Every message is a little-endian u32 byte length, a UTF-8 JSON header of
+    that length, then, for "audio" messages only, `bytes` bytes of f32le PCM.
+    """
+
+    def __init__(self, out):
+        self.out = out
+        self.lock = threading.Lock()
+
+    def send(self, header: dict, payload: bytes = b""):
+        data = json.dumps(header).encode("utf-8")
+        with self.lock:
+            self.out.write(struct.pack("<I", len(data)) + data + payload)
+            self.out.flush()
+
+
 def main():
     parser = argparse.ArgumentParser(
         description="Run Kyutai TTS using the MLX implementation"
     )
     parser.add_argument(
-        "out", type=str, help="Output file to generate, use - for playing the audio, use stdout for raw PCM streaming"
+        "out",
+        type=str,
+        help="Output file to generate, use - for playing the audio, use stdout for raw PCM streaming, "
+        "use jsonl for JSON requests on stdin and framed responses on stdout",
     )
     parser.add_argument(
         "--hf-repo",
@@ -255,19 +284,26 @@ def main():
     log("info", "reading input from stdin")
 
     # Set up unbuffered binary stdout for low latency streaming
-    if args.out == "stdout":
+    if args.out in ("stdout", "jsonl"):
         sys.stdout = os.fdopen(sys.stdout.fileno(), 'wb', 0)
 
-    if tts_model.multi_speaker:
-        voices = [tts_model.get_voice_path(args.voice)]
-    else:
-        voices = []
-    all_attributes = [
-        tts_model.make_condition_attributes(voices, cfg_coef_conditioning)
-    ]
+    attributes_cache: dict[str, list[ConditionAttributes]] = {}
 
-    # Only create queue if not using stdout mode
-    wav_frames = None if args.out == "stdout" else queue.Queue()
+    def attributes_for(voice: str) -> list[ConditionAttributes]:
+        if voice not in attributes_cache:
+            if tts_model.multi_speaker:
+                voices = [tts_model.get_voice_path(voice)]
+            else:
+                voices = []
+            attributes_cache[voice] = [
+                tts_model.make_condition_attributes(voices, cfg_coef_conditioning)
+            ]
+        return attributes_cache[voice]
+
+    all_attributes = attributes_for(args.voice)
+
+    # Only create queue if not using a streaming mode
+    wav_frames = None if args.out in ("stdout", "jsonl") else queue.Queue()
 
     def _on_frame(frame):
         if (frame == -1).any():
@@ -307,7 +343,121 @@ def main():
             gen.process_last()
             log("info", "message processing complete")
 
-    if args.out == "stdout":
+    def run_jsonl():
+        # Requests, one JSON object per stdin line:
+        #   {"type": "synthesize", "id": "u1", "text": "...", "voice": "...", "options": {"temp": 0.6}}
+        #   {"type": "cancel", "id": "u1"}
+        #   {"type": "ping", "id": "p1"}
+        # Responses: {"type": "ready"}, {"type": "audio", "id", "seq", "bytes"} + PCM,
+        #   {"type": "utterance_done", "id", "samples", "cancelled"}, {"type": "error", "id"?, "message"},
+        #   {"type": "pong", "id", "busy"}, where busy is the request being synthesized, if any
+        channel = JsonlChannel(sys.stdout)
+        requests: queue.Queue = queue.Queue()
+        # Cancels are only kept for requests still queued or running, and
+        # dropped with them; guarded by lock, since both threads use them
+        lock = threading.Lock()
+        queued: set = set()
+        cancelled: set = set()
+        current = {"id": None}
+
+        def read_requests():
+            for line in sys.stdin:
+                line = line.strip()
+                if not line:
+                    continue
+                try:
+                    request = json.loads(line)
+                except json.JSONDecodeError as e:
+                    channel.send({"type": "error", "message": f"invalid request: {e}"})
+                    continue
+                if request.get("type") == "cancel":
+                    with lock:
+                        cancel_id = request.get("id")
+                        if cancel_id in queued or cancel_id == current["id"]:
+                            cancelled.add(cancel_id)
+                elif request.get("type") == "ping":
+                    # Answered from this thread, so pings work mid-utterance
+                    channel.send({"type": "pong", "id": request.get("id"), "busy": current["id"]})
+                else:
+                    with lock:
+                        if request.get("type") == "synthesize" and isinstance(request.get("id"), str):
+                            queued.add(request["id"])
+                    requests.put(request)
+            requests.put(None)
+
+        threading.Thread(target=read_requests, daemon=True).start()
+        log("info", "starting the inference loop")
+        channel.send({"type": "ready"})
+
+        first_turn = True
+        while (request := requests.get()) is not None:
+            request_id = request.get("id")
+            text = str(request.get("text") or "").strip()
+            if request.get("type") != "synthesize" or not isinstance(request_id, str):
+                channel.send({"type": "error", "id": request_id, "message": "expected a synthesize request with a string id"})
+                continue
+            with lock:
+                queued.discard(request_id)
+                was_cancelled = request_id in cancelled
+                cancelled.discard(request_id)
+                if not was_cancelled and text:
+                    current["id"] = request_id
+            if was_cancelled:
+                channel.send({"type": "utterance_done", "id": request_id, "samples": 0, "cancelled": True})
+                continue
+            if not text:
+                channel.send({"type": "utterance_done", "id": request_id, "samples": 0, "cancelled": False})
+                continue
+
+            log("info", f"processing request {request_id}: {text[:50]}...")
+            progress = {"seq": 0, "samples": 0}
+
+            def _on_request_frame(frame):
+                if request_id in cancelled:
+                    raise Cancelled()
+                if (frame == -1).any():
+                    return
+                _pcm = tts_model.mimi.decode_step(frame[:, :, None])
+                _pcm = np.array(mx.clip(_pcm[0, 0], -1, 1)).astype('<f4')
+                payload = _pcm.tobytes()
+                channel.send(
+                    {"type": "audio", "id": request_id, "seq": progress["seq"], "bytes": len(payload)},
+                    payload,
+                )
+                progress["seq"] += 1
+                progress["samples"] += _pcm.shape[-1]
+
+            options = request.get("options") or {}
+            try:
+                gen = TTSGen(
+                    tts_model,
+                    attributes_for(str(request.get("voice") or args.voice)),
+                    on_frame=_on_request_frame,
+                    temp=options.get("temp"),
+                )
+                entries = prepare_script(tts_model, text, first_turn=first_turn)
+                first_turn = False
+                for entry in entries:
+                    gen.append_entry(entry)
+                    gen.process()
+                gen.process_last()
+            except Cancelled:
+                log("info", f"request {request_id} cancelled")
+                channel.send({"type": "utterance_done", "id": request_id, "samples": progress["samples"], "cancelled": True})
+            except Exception as e:
+                log("error", f"request {request_id} failed: {e}")
+                channel.send({"type": "error", "id": request_id, "message": str(e)})
+            else:
+                channel.send({"type": "utterance_done", "id": request_id, "samples": progress["samples"], "cancelled": False})
+            finally:
+                with lock:
+                    current["id"] = None
+                    # A cancel that came in after the last frame
+                    cancelled.discard(request_id)
+
+    if args.out == "jsonl":
+        run_jsonl()
+    elif args.out == "stdout":
         # Direct stdout streaming mode - no buffering, ultra-low latency
         run()
     elif args.out == "-":
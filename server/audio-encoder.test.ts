@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { AudioSampleFormat, OPUS_FRAME_SAMPLES, splitOpusPackets } from '../shared/audio-frame';
+import { createAudioEncoder, describeAudioFormat, negotiateEncoding } from './audio-encoder';
+
+const OPTIONS = { opusBitrate: 24000 };
+
+// A 440 Hz tone at 24 kHz, as f32le bytes the way TTS streams it
+const tone = (samples: number, amplitude = 0.5) => {
+  const pcm = Float32Array.from({ length: samples }, (_, i) => amplitude * Math.sin(2 * Math.PI * 440 * i / 24000));
+  return new Uint8Array(pcm.buffer);
+};
+
+describe('audio encoders', () => {
+  test('f32le passes samples through', () => {
+    const encoder = createAudioEncoder('f32le', OPTIONS);
+    const pcm = tone(100);
+    expect(encoder.encode(pcm)).toEqual({ payload: pcm, samples: 100 });
+    expect(encoder.end().samples).toBe(0);
+  });
+
+  test('s16le scales and clips', () => {
+    const encoder = createAudioEncoder('s16le', OPTIONS);
+    const { payload, samples } = encoder.encode(new Uint8Array(Float32Array.of(0, 1, -1, 2, -0.5).buffer));
+    expect(samples).toBe(5);
+    expect([...new Int16Array(payload.slice().buffer)]).toEqual([0, 32767, -32768, 32767, -16384]);
+  });
+
+  test('s16le takes chunks at any byte offset', () => {
+    const encoder = createAudioEncoder('s16le', OPTIONS);
+    const bytes = new Uint8Array(2 + 8);
+    bytes.set(new Uint8Array(Float32Array.of(0.5, -0.5).buffer), 2);
+    expect([...new Int16Array(encoder.encode(bytes.subarray(2)).payload.slice().buffer)]).toEqual([16383, -16384]);
+  });
+
+  test('mulaw downsamples to 8 kHz across chunks', () => {
+    const encoder = createAudioEncoder('mulaw', OPTIONS);
+    expect(encoder.format).toBe(AudioSampleFormat.Mulaw);
+    // 2400 samples in uneven chunks, then the filter's tail
+    const counts = [1000, 700, 700].map(n => encoder.encode(tone(n)).samples);
+    const total = counts.reduce((a, b) => a + b, 0) + encoder.end().samples;
+    expect(total).toBe(810);
+    // Silence is mu-law's zero code
+    const silent = createAudioEncoder('mulaw', OPTIONS).encode(new Uint8Array(new Float32Array(30).buffer));
+    expect([...silent.payload]).toEqual(new Array(10).fill(0xff));
+  });
+
+  test('opus holds partial frames back until the end', () => {
+    const encoder = createAudioEncoder('opus', OPTIONS);
+    try {
+      const first = encoder.encode(tone(OPUS_FRAME_SAMPLES + 100));
+      expect(first.samples).toBe(OPUS_FRAME_SAMPLES);
+      expect(splitOpusPackets(first.payload.slice().buffer)).toHaveLength(1);
+      const last = encoder.end();
+      // The rest, padded to a whole frame
+      expect(last.samples).toBe(OPUS_FRAME_SAMPLES);
+      expect(encoder.end().samples).toBe(0);
+    } finally {
+      encoder.free();
+    }
+  });
+});
+
+describe('negotiateEncoding', () => {
+  test('picks the first known encoding, else f32le', () => {
+    expect(negotiateEncoding('aac, opus ,s16le')).toBe('opus');
+    expect(negotiateEncoding('aac')).toBe('f32le');
+    expect(negotiateEncoding(null)).toBe('f32le');
+    expect(describeAudioFormat('mulaw').sampleRate).toBe(8000);
+  });
+});
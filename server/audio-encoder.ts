@@ -0,0 +1,182 @@
+import OpusScript from 'opusscript';
+import {
+  AUDIO_ENCODINGS,
+  AudioSampleFormat,
+  OPUS_FRAME_SAMPLES,
+  isAudioEncoding,
+  type AudioEncoding,
+} from '../shared/audio-frame';
+import type { AudioFormat } from '../shared/protocol';
+import { TTS_SAMPLE_RATE } from './tts';
+
+export interface EncodedAudio {
+  payload: Uint8Array;
+  // Output samples in the payload, at the encoding's sample rate
+  samples: number;
+}
+
+/**
+ * Turns one utterance of f32le TTS output into a client's encoding. Encoders
+ * may hold samples back between chunks; end() flushes them.
+ */
+export interface AudioEncoder {
+  readonly format: AudioSampleFormat;
+  encode(pcm: Uint8Array): EncodedAudio;
+  end(): EncodedAudio;
+  free(): void;
+}
+
+export interface AudioEncoderOptions {
+  opusBitrate: number;
+}
+
+const empty: EncodedAudio = { payload: new Uint8Array(0), samples: 0 };
+
+const toFloat32 = (pcm: Uint8Array) => pcm.byteOffset % 4
+  ? new Float32Array(pcm.slice().buffer)
+  : new Float32Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 4);
+
+const toInt16 = (samples: Float32Array) => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+};
+
+const bytesOf = (array: Int16Array) => new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+
+class F32Encoder implements AudioEncoder {
+  readonly format = AudioSampleFormat.F32LE;
+  encode = (pcm: Uint8Array) => ({ payload: pcm, samples: pcm.byteLength / 4 });
+  end = () => empty;
+  free = () => {};
+}
+
+class S16Encoder implements AudioEncoder {
+  readonly format = AudioSampleFormat.S16LE;
+  encode = (pcm: Uint8Array) => {
+    const samples = toInt16(toFloat32(pcm));
+    return { payload: bytesOf(samples), samples: samples.length };
+  }
+  end = () => empty;
+  free = () => {};
+}
+
+// 31-tap windowed-sinc low-pass at 3.6 kHz, ahead of the 24 kHz -> 8 kHz decimation
+const DECIMATION = TTS_SAMPLE_RATE / AUDIO_ENCODINGS.mulaw.sampleRate;
+const TAPS = (() => {
+  const n = 31, cutoff = 3600 / TTS_SAMPLE_RATE, mid = (n - 1) / 2;
+  const taps = Array.from({ length: n }, (_, i) => {
+    const x = i - mid;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    return sinc * (0.54 - 0.46 * Math.cos(2 * Math.PI * i / (n - 1)));
+  });
+  const sum = taps.reduce((a, b) => a + b, 0);
+  return Float32Array.from(taps, t => t / sum);
+})();
+
+// G.711 mu-law of a 16-bit sample
+const muLaw = (sample: number) => {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), 32635) + 0x84;
+  let exponent = 7;
+  for (let mask = 0x4000; !(magnitude & mask) && exponent > 0; mask >>= 1) exponent--;
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+};
+
+class MulawEncoder implements AudioEncoder {
+  readonly format = AudioSampleFormat.Mulaw;
+  private history = new Float32Array(TAPS.length - 1);
+  // Where in the next chunk the next output sample is centred
+  private phase = 0;
+
+  encode = (pcm: Uint8Array) => this.decimate(toFloat32(pcm));
+  // Push the filter's delay line out
+  end = () => this.decimate(new Float32Array(TAPS.length - 1));
+  free = () => {};
+
+  private decimate = (input: Float32Array): EncodedAudio => {
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const out: number[] = [];
+    let i = this.history.length + this.phase;
+    for (; i < buffer.length; i += DECIMATION) {
+      let acc = 0;
+      for (let k = 0; k < TAPS.length; k++) acc += buffer[i - k] * TAPS[k];
+      out.push(muLaw(Math.round(Math.max(-1, Math.min(1, acc)) * 0x7fff)));
+    }
+    this.phase = i - buffer.length;
+    this.history = buffer.slice(buffer.length - this.history.length);
+    return { payload: Uint8Array.from(out), samples: out.length };
+  }
+}
+
+class OpusEncoder implements AudioEncoder {
+  readonly format = AudioSampleFormat.Opus;
+  private opus = new OpusScript(TTS_SAMPLE_RATE as 24000, 1, OpusScript.Application.VOIP);
+  private pending = new Int16Array(0);
+
+  constructor(bitrate: number) {
+    this.opus.setBitrate(bitrate);
+  }
+
+  encode = (pcm: Uint8Array) => this.packetize(toInt16(toFloat32(pcm)), false);
+  end = () => this.packetize(new Int16Array(0), true);
+  free = () => this.opus.delete();
+
+  // Encodes every whole 20 ms frame, padding the last one with silence at the end
+  private packetize = (input: Int16Array, final: boolean): EncodedAudio => {
+    let samples = new Int16Array(this.pending.length + input.length);
+    samples.set(this.pending);
+    samples.set(input, this.pending.length);
+    if (final && samples.length % OPUS_FRAME_SAMPLES) {
+      const padded = new Int16Array(Math.ceil(samples.length / OPUS_FRAME_SAMPLES) * OPUS_FRAME_SAMPLES);
+      padded.set(samples);
+      samples = padded;
+    }
+
+    const packets: Buffer[] = [];
+    let offset = 0;
+    for (; offset + OPUS_FRAME_SAMPLES <= samples.length; offset += OPUS_FRAME_SAMPLES) {
+      const frame = Buffer.from(samples.buffer, offset * 2, OPUS_FRAME_SAMPLES * 2);
+      const packet = this.opus.encode(frame, OPUS_FRAME_SAMPLES);
+      const length = Buffer.alloc(2);
+      length.writeUInt16LE(packet.length);
+      packets.push(length, packet);
+    }
+    this.pending = samples.slice(offset);
+    return { payload: Buffer.concat(packets), samples: offset };
+  }
+}
+
+export const createAudioEncoder = (encoding: AudioEncoding, options: AudioEncoderOptions): AudioEncoder => {
+  switch (encoding) {
+    case 'f32le': return new F32Encoder();
+    case 's16le': return new S16Encoder();
+    case 'mulaw': return new MulawEncoder();
+    case 'opus': return new OpusEncoder(options.opusBitrate);
+  }
+};
+
+// The first encoding the client offers that we know, else f32le
+export const negotiateEncoding = (offered: string | null): AudioEncoding =>
+  offered?.split(',').map(name => name.trim()).find(isAudioEncoding) ?? 'f32le';
+
+const notes: Record<AudioEncoding, string> = {
+  f32le: 'Float32 little-endian samples in [-1.0, +1.0]',
+  s16le: 'Int16 little-endian samples',
+  mulaw: 'G.711 mu-law, one byte per sample',
+  opus: `Opus packets of ${OPUS_FRAME_SAMPLES} samples, each prefixed by its u16 little-endian length`,
+};
+
+export const describeAudioFormat = (encoding: AudioEncoding): AudioFormat => ({
+  encoding,
+  sampleRate: AUDIO_ENCODINGS[encoding].sampleRate,
+  channels: 1,
+  note: `${notes[encoding]}, in binary frames with a 24-byte header (shared/audio-frame.ts)`,
+});
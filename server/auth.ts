@@ -0,0 +1,62 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { AUTH_SUBPROTOCOL_PREFIX, TOKEN_QUERY_PARAM } from '../shared/protocol';
+import type { RateLimits } from './rate-limit';
+
+// A client credential. Limits override the server-wide rate limits for it.
+export interface ApiKey {
+  token: string;
+  name: string;
+  limits?: Partial<RateLimits>;
+}
+
+export interface AuthOptions {
+  // JSON array of ApiKey
+  keysFile?: string;
+  // Comma-separated tokens, named after their position
+  tokens?: string;
+}
+
+// Keys are looked up by the hash of the token, so the lookup leaks nothing
+// about how much of a wrong token matched
+const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const isApiKey = (v: unknown): v is ApiKey => {
+  const key = v as ApiKey;
+  return typeof key === 'object' && key !== null && typeof key.token === 'string' && key.token.length > 0
+    && typeof key.name === 'string';
+};
+
+/**
+ * The tokens allowed to connect. With none configured, auth is off and every
+ * connection is let in.
+ */
+export class KeyStore {
+  private keys = new Map<string, Omit<ApiKey, 'token'>>();
+
+  constructor(options: AuthOptions) {
+    const keys: unknown[] = options.keysFile ? JSON.parse(readFileSync(options.keysFile, 'utf8')) : [];
+    if (!Array.isArray(keys) || !keys.every(isApiKey)) {
+      throw new Error(`Auth keys file ${options.keysFile} must be an array of {token, name, limits?} objects`);
+    }
+    const tokens = (options.tokens ?? '').split(',').map(t => t.trim()).filter(Boolean);
+    tokens.forEach((token, i) => keys.push({ token, name: `token-${i + 1}` }));
+    for (const { token, ...key } of keys as ApiKey[]) this.keys.set(hash(token), key);
+  }
+
+  get enabled() { return this.keys.size > 0; }
+  size = () => this.keys.size;
+
+  lookup = (token: string | null) => token ? this.keys.get(hash(token)) ?? null : null;
+}
+
+// The token a request presents: from the query string, an Authorization
+// header (HTTP routes) or the subprotocol list (WebSocket upgrades)
+export const tokenFromRequest = (req: Request, url: URL) => {
+  const fromQuery = url.searchParams.get(TOKEN_QUERY_PARAM);
+  if (fromQuery) return fromQuery;
+  const bearer = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) return bearer[1].trim();
+  const protocols = (req.headers.get('sec-websocket-protocol') ?? '').split(',').map(p => p.trim());
+  return protocols.find(p => p.startsWith(AUTH_SUBPROTOCOL_PREFIX))?.slice(AUTH_SUBPROTOCOL_PREFIX.length) ?? null;
+};
@@ -0,0 +1,161 @@
+import type { LlmConfig } from './llm';
+import type { ModerationConfig } from './moderation';
+import type { SttBackendConfig } from './stt';
+import type { TtsBackendConfig } from './tts';
+
+// Server settings, read once from the environment (Bun loads server/.env)
+const env = process.env;
+
+const optionalNumber = (value: string | undefined) => value ? Number(value) : undefined;
+const list = (value: string | undefined) => (value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+
+const ttsConfig = (): TtsBackendConfig => {
+  switch (env.TTS_BACKEND ?? 'mlx') {
+    case 'synthetic':
+      return {
+        backend: 'synthetic',
+        shape: env.SYNTHETIC_TTS_SHAPE === 'noise' ? 'noise' : 'tone',
+        realtimeFactor: Number(env.SYNTHETIC_TTS_REALTIME ?? 1),
+      };
+    case 'mlx':
+      return {
+        backend: 'mlx',
+        script: env.MLX_TTS_SCRIPT ?? '../scripts/tts_mlx_streaming.py',
+        quantize: Number(env.MLX_TTS_QUANTIZE ?? 8) || undefined,
+        voice: env.MLX_TTS_VOICE,
+      };
+    default:
+      throw new Error(`Unknown TTS_BACKEND "${env.TTS_BACKEND}" (expected mlx or synthetic)`);
+  }
+};
+
+const sttConfig = (): SttBackendConfig => {
+  switch (env.STT_BACKEND ?? 'stub') {
+    case 'stub':
+      return {
+        backend: 'stub',
+        fixtureFile: env.STUB_STT_FIXTURE,
+        secondsPerWord: Number(env.STUB_STT_SECONDS_PER_WORD ?? 0.3),
+      };
+    default:
+      throw new Error(`Unknown STT_BACKEND "${env.STT_BACKEND}" (expected stub)`);
+  }
+};
+
+const llmConfig = (): LlmConfig => {
+  switch (env.LLM_PROVIDER ?? 'openai') {
+    case 'openai':
+      return { provider: 'openai', model: env.LLM_MODEL ?? 'gpt-4.1-mini-2025-04-14' };
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) throw new Error('LLM_PROVIDER=openai-compatible needs LLM_BASE_URL');
+      if (!env.LLM_MODEL) throw new Error('LLM_PROVIDER=openai-compatible needs LLM_MODEL');
+      return { provider: 'openai-compatible', model: env.LLM_MODEL, baseURL: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY };
+    case 'scripted':
+      return {
+        provider: 'scripted',
+        mode: env.SCRIPTED_LLM_MODE === 'echo' ? 'echo' : 'fixture',
+        fixtureFile: env.SCRIPTED_LLM_FIXTURE,
+        firstTokenDelayMs: Number(env.SCRIPTED_LLM_FIRST_TOKEN_DELAY_MS ?? 300),
+        tokenDelayMs: Number(env.SCRIPTED_LLM_TOKEN_DELAY_MS ?? 40),
+      };
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected openai, openai-compatible or scripted)`);
+  }
+};
+
+export const config = {
+  port: Number(env.PORT ?? 3000),
+  // 'session' sends synthesized audio only to the client that asked for it,
+  // 'broadcast' keeps the old behaviour of every client hearing every answer.
+  audioRouting: env.AUDIO_ROUTING === 'broadcast' ? 'broadcast' : 'session',
+  tts: ttsConfig(),
+  ttsPool: {
+    // Each worker is its own TTS process with its own copy of the model
+    size: Number(env.TTS_WORKERS ?? 1),
+    healthCheckMs: Number(env.TTS_HEALTH_CHECK_MS ?? 10_000),
+    // A worker that misses a ping, or produces no audio for an utterance
+    // for this long, is restarted
+    timeoutMs: Number(env.TTS_HEALTH_TIMEOUT_MS ?? 5000),
+    stallMs: Number(env.TTS_STALL_MS ?? 30_000),
+  },
+  auth: {
+    // Without either, auth is off and anyone can connect
+    keysFile: env.AUTH_KEYS_FILE,
+    tokens: env.AUTH_TOKENS,
+  },
+  // Per token, or per IP without auth; keys in AUTH_KEYS_FILE may override them
+  rateLimits: {
+    messagesPerMinute: Number(env.RATE_LIMIT_MESSAGES_PER_MINUTE ?? 60),
+    messageBurst: Number(env.RATE_LIMIT_MESSAGE_BURST ?? 20),
+    llmTokensPerMinute: Number(env.RATE_LIMIT_LLM_TOKENS_PER_MINUTE ?? 20_000),
+  },
+  inputLimits: {
+    // Typed or transcribed
+    maxPromptChars: Number(env.MAX_PROMPT_CHARS ?? 4000),
+    // Any WebSocket message, JSON or audio
+    maxFrameBytes: Number(env.MAX_FRAME_BYTES ?? 65_536),
+    // JSON messages between two chat messages, not counting cancel
+    maxMessagesPerTurn: Number(env.MAX_MESSAGES_PER_TURN ?? 30),
+  },
+  moderation: {
+    // JSON array of ModerationRule (server/moderation/keyword-moderator.ts)
+    rulesFile: env.MODERATION_RULES_FILE,
+    blocklist: list(env.MODERATION_BLOCKLIST),
+  } satisfies ModerationConfig,
+  // SQLite file for stored conversations; 'off' keeps nothing
+  conversationsDb: env.CONVERSATIONS_DB ?? 'data/conversations.sqlite',
+  readiness: {
+    // /readyz fails with fewer TTS workers up (capped at the pool size)...
+    minTtsWorkers: Number(env.READY_MIN_TTS_WORKERS ?? 1),
+    // ...or once the pool has restarted more often than this within the window
+    maxTtsRestarts: Number(env.READY_MAX_TTS_RESTARTS ?? 10),
+    ttsRestartWindowMs: Number(env.READY_TTS_RESTART_WINDOW_MS ?? 600_000),
+  },
+  voices: {
+    // JSON array of {id, name, description, path}; built-in voices otherwise
+    file: env.TTS_VOICES_FILE,
+    // Voice id sessions start with; the catalog's first otherwise
+    defaultVoice: env.TTS_DEFAULT_VOICE,
+  },
+  // Stop sending a client audio while this much is still unsent on its socket
+  maxBufferedAudioBytes: Number(env.MAX_BUFFERED_AUDIO_BYTES ?? 1_048_576),
+  audioEncoding: {
+    opusBitrate: Number(env.OPUS_BITRATE ?? 24_000),
+  },
+  stt: sttConfig(),
+  phrases: {
+    minChars: Number(env.TTS_PHRASE_MIN_CHARS ?? 20),
+    maxChars: Number(env.TTS_PHRASE_MAX_CHARS ?? 200),
+    firstPhraseMinChars: Number(env.TTS_FIRST_PHRASE_MIN_CHARS ?? 10),
+    idleFlushMs: Number(env.TTS_IDLE_FLUSH_MS ?? 400),
+  },
+  speech: {
+    language: env.SPEECH_LANGUAGE ?? 'en',
+    urls: env.SPEECH_URLS === 'skip' ? 'skip' : 'replace',
+    code: env.SPEECH_CODE === 'skip' ? 'skip' : 'replace',
+    disabledRules: list(env.SPEECH_DISABLED_RULES),
+  },
+  tools: {
+    // Some local models can't call tools; TOOLS=off leaves them out
+    enabled: env.TOOLS !== 'off',
+    // Model calls per turn, counting the ones that only call tools
+    maxSteps: Number(env.TOOL_MAX_STEPS ?? 5),
+    notesFile: env.NOTES_FILE ?? 'data/notes.json',
+  },
+  llm: {
+    provider: llmConfig(),
+    history: {
+      maxTurns: Number(env.HISTORY_MAX_TURNS ?? 20),
+      maxTokens: Number(env.HISTORY_MAX_TOKENS ?? 4000),
+    },
+    system: env.LLM_SYSTEM_PROMPT ?? 'You are a helpful assistant. keep everything super short. never use em dashes. think deeply before answering.',
+    // Provider defaults when unset
+    temperature: optionalNumber(env.LLM_TEMPERATURE),
+    maxTokens: optionalNumber(env.LLM_MAX_TOKENS),
+    // What sessions may pick with a configure message. The default model is
+    // always allowed.
+    allowedModels: list(env.LLM_MODELS),
+    maxTokensLimit: Number(env.LLM_MAX_TOKENS_LIMIT ?? 4096),
+    systemPromptMaxChars: Number(env.LLM_SYSTEM_PROMPT_MAX_CHARS ?? 4000),
+  },
+} as const;
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { ConversationStore } from './conversation-store';
+import { handleConversationRequest, type ReplySpeaker } from './conversation-routes';
+import { SpeechNormalizer } from './speech';
+import { TTSQueue } from './tts-queue';
+
+const queue = new TTSQueue(
+  { minChars: 20, maxChars: 200, firstPhraseMinChars: 10, idleFlushMs: 400 },
+  new SpeechNormalizer({ language: 'en', urls: 'replace', code: 'replace', disabledRules: [] }),
+);
+
+const storeWith = (reply: string) => {
+  const store = new ConversationStore(':memory:');
+  const { id } = store.create('', 'Test');
+  store.appendTurn('', id, {
+    prompt: 'Show me', reply, tools: [], model: 'echo', voice: 'happy', status: 'complete',
+    startedAt: new Date().toISOString(), timings: { totalMs: 10 },
+  });
+  return { store, id };
+};
+
+describe('conversation export', () => {
+  test('speaks replies as live speech would, phrase by phrase', async () => {
+    const { store, id } = storeWith([
+      '## Steps',
+      '**First**, install it from https://example.com/download and run `bun install`.',
+      '```ts\nconst answer = 42;\n```',
+      'Then you are done.',
+    ].join('\n'));
+    const spoken: string[] = [];
+    const speaker: ReplySpeaker = {
+      phrasesOf: queue.phrasesOf,
+      speak: async phrase => {
+        spoken.push(phrase);
+        return { samples: new Float32Array(10), sampleRate: 24000 };
+      },
+    };
+
+    const url = new URL(`http://localhost/conversations/${id}/export?format=wav`);
+    const res = await handleConversationRequest(new Request(url.href), url, store, '', speaker, {});
+
+    expect(res?.status).toBe(200);
+    expect(res?.headers.get('Content-Type')).toBe('audio/wav');
+    expect(spoken.length).toBeGreaterThan(1);
+    const text = spoken.join(' ');
+    expect(text).toContain('First, install it from a link and run bun install.');
+    expect(text).toContain('The code is on screen.');
+    expect(text).not.toMatch(/[#*`]|https?:|const answer/);
+  });
+});
@@ -0,0 +1,156 @@
+import { CONVERSATIONS_PATH, type ConversationDetail, type ConversationsResponse } from '../shared/protocol';
+import {
+  EXPORT_FORMATS,
+  exportFileName,
+  isExportFormat,
+  toMarkdown,
+  type ExportedConversation,
+} from '../shared/conversation-export';
+import { encodeWav } from '../shared/wav';
+import type { ConversationStore } from './conversation-store';
+
+const MAX_TITLE_CHARS = 200;
+// Between turns in a whole conversation's audio
+const TURN_GAP_SECONDS = 0.5;
+
+// Speaks stored replies again, since audio isn't stored: split into the
+// phrases live speech would send to TTS, each in the turn's voice
+export interface ReplySpeaker {
+  phrasesOf: (reply: string) => string[];
+  speak: (phrase: string, voice: string) => Promise<{ samples: Float32Array; sampleRate: number }>;
+}
+
+const error = (status: number, message: string, headers: Record<string, string>) =>
+  new Response(message, { status, headers });
+
+const readTitle = async (req: Request) => {
+  try {
+    const body = await req.json() as { title?: unknown };
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    return title && title.length <= MAX_TITLE_CHARS ? title : null;
+  } catch {
+    return null;
+  }
+};
+
+const exportOf = (conversation: ConversationDetail): ExportedConversation => ({
+  title: conversation.title,
+  exportedAt: new Date().toISOString(),
+  messages: conversation.turns.flatMap(turn => [
+    { role: 'user' as const, content: turn.prompt, timestamp: turn.startedAt },
+    {
+      role: 'assistant' as const,
+      content: turn.reply,
+      timestamp: new Date(Date.parse(turn.startedAt) + turn.timings.totalMs).toISOString(),
+      ...(turn.tools.length && { tools: turn.tools.map(({ name, input, output, error }) => ({ name, input, output, error })) }),
+      model: turn.model,
+      voice: turn.voice,
+      status: turn.status,
+      timings: turn.timings,
+    },
+  ]),
+});
+
+// The replies' speech, one turn's or all of them with a pause between
+const speechOf = async (conversation: ConversationDetail, turn: number | null, speak: ReplySpeaker) => {
+  const turns = conversation.turns.filter(t => (turn === null || t.index === turn) && t.reply.trim());
+  const parts: Float32Array[] = [];
+  let sampleRate = 0;
+  for (const t of turns) {
+    const phrases = speak.phrasesOf(t.reply);
+    if (phrases.length && parts.length) parts.push(new Float32Array(Math.round(TURN_GAP_SECONDS * sampleRate)));
+    for (const phrase of phrases) {
+      const speech = await speak.speak(phrase, t.voice);
+      sampleRate = speech.sampleRate;
+      parts.push(speech.samples);
+    }
+  }
+  if (!parts.length) return null;
+  const samples = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    samples.set(p, offset);
+    offset += p.length;
+  }
+  return encodeWav(samples, sampleRate);
+};
+
+const handleExport = async (
+  url: URL,
+  conversation: ConversationDetail,
+  speak: ReplySpeaker,
+  headers: Record<string, string>,
+): Promise<Response> => {
+  const format = url.searchParams.get('format') ?? 'markdown';
+  if (!isExportFormat(format)) return error(400, `Expected format=${EXPORT_FORMATS.join('|')}`, headers);
+  const attachment = (extension: string, contentType: string) => ({
+    ...headers,
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${exportFileName(conversation.title, extension)}"`,
+  });
+
+  switch (format) {
+    case 'markdown':
+      return new Response(toMarkdown(exportOf(conversation)), { headers: attachment('md', 'text/markdown; charset=utf-8') });
+    case 'json':
+      return new Response(JSON.stringify(exportOf(conversation), null, 2), { headers: attachment('json', 'application/json') });
+    case 'wav': {
+      const turnParam = url.searchParams.get('turn');
+      const turn = turnParam === null ? null : Number(turnParam);
+      if (turn !== null && !conversation.turns.some(t => t.index === turn)) return error(404, 'Unknown turn', headers);
+      try {
+        const wav = await speechOf(conversation, turn, speak);
+        if (!wav) return error(404, 'No speech to export', headers);
+        return new Response(wav, { headers: attachment(turn === null ? 'wav' : `turn-${turn}.wav`, 'audio/wav') });
+      } catch (err) {
+        console.error(`Audio export of ${conversation.id} failed:`, err);
+        return error(503, 'Audio export unavailable', headers);
+      }
+    }
+  }
+};
+
+/**
+ * The REST routes under CONVERSATIONS_PATH, answering for one owner's
+ * conversations. Undefined for any other path.
+ */
+export const handleConversationRequest = async (
+  req: Request,
+  url: URL,
+  store: ConversationStore,
+  owner: string,
+  speak: ReplySpeaker,
+  headers: Record<string, string>,
+): Promise<Response | undefined> => {
+  if (url.pathname === CONVERSATIONS_PATH) {
+    if (req.method !== 'GET') return error(405, 'Method not allowed', { ...headers, Allow: 'GET' });
+    return Response.json({ conversations: store.list(owner) } satisfies ConversationsResponse, { headers });
+  }
+
+  const exported = url.pathname.match(new RegExp(`^${CONVERSATIONS_PATH}/([^/]+)/export$`));
+  if (exported) {
+    if (req.method !== 'GET') return error(405, 'Method not allowed', { ...headers, Allow: 'GET' });
+    const conversation = store.get(owner, decodeURIComponent(exported[1]));
+    return conversation ? handleExport(url, conversation, speak, headers) : error(404, 'Unknown conversation', headers);
+  }
+
+  const match = url.pathname.match(new RegExp(`^${CONVERSATIONS_PATH}/([^/]+)$`));
+  if (!match) return undefined;
+  const id = decodeURIComponent(match[1]);
+  switch (req.method) {
+    case 'GET': {
+      const conversation = store.get(owner, id);
+      return conversation ? Response.json(conversation, { headers }) : error(404, 'Unknown conversation', headers);
+    }
+    case 'PATCH': {
+      const title = await readTitle(req);
+      if (!title) return error(400, `Expected {"title"} of 1 to ${MAX_TITLE_CHARS} characters`, headers);
+      const conversation = store.rename(owner, id, title);
+      return conversation ? Response.json(conversation, { headers }) : error(404, 'Unknown conversation', headers);
+    }
+    case 'DELETE':
+      return store.remove(owner, id) ? new Response(null, { status: 204, headers }) : error(404, 'Unknown conversation', headers);
+    default:
+      return error(405, 'Method not allowed', { ...headers, Allow: 'GET, PATCH, DELETE' });
+  }
+};
@@ -0,0 +1,153 @@
+import { Database } from 'bun:sqlite';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { ConversationDetail, ConversationSummary, StoredTurn } from '../shared/protocol';
+
+type ConversationRow = { id: string; title: string; created_at: number; updated_at: number; turn_count: number };
+type TurnRow = {
+  seq: number;
+  prompt: string;
+  reply: string;
+  tools: string;
+  model: string;
+  voice: string;
+  status: StoredTurn['status'];
+  started_at: number;
+  first_token_ms: number | null;
+  first_audio_ms: number | null;
+  total_ms: number;
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    title TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS conversations_by_owner ON conversations (owner, updated_at);
+  CREATE TABLE IF NOT EXISTS turns (
+    conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    prompt TEXT NOT NULL,
+    reply TEXT NOT NULL,
+    tools TEXT NOT NULL,
+    model TEXT NOT NULL,
+    voice TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    first_token_ms INTEGER,
+    first_audio_ms INTEGER,
+    total_ms INTEGER NOT NULL,
+    PRIMARY KEY (conversation_id, seq)
+  );
+`;
+
+const SUMMARY = `
+  SELECT c.id, c.title, c.created_at, c.updated_at,
+    (SELECT COUNT(*) FROM turns t WHERE t.conversation_id = c.id) AS turn_count
+  FROM conversations c`;
+
+const TITLE_CHARS = 60;
+
+// The first words of the first prompt
+export const titleFrom = (prompt: string) => {
+  const text = prompt.replace(/\s+/g, ' ').trim();
+  if (text.length <= TITLE_CHARS) return text;
+  const cut = text.lastIndexOf(' ', TITLE_CHARS);
+  return `${text.slice(0, cut > TITLE_CHARS / 2 ? cut : TITLE_CHARS)}…`;
+};
+
+const toSummary = (row: ConversationRow): ConversationSummary => ({
+  id: row.id,
+  title: row.title,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString(),
+  turnCount: row.turn_count,
+});
+
+const toTurn = (row: TurnRow): StoredTurn => ({
+  index: row.seq,
+  prompt: row.prompt,
+  reply: row.reply,
+  tools: JSON.parse(row.tools),
+  model: row.model,
+  voice: row.voice,
+  status: row.status,
+  startedAt: new Date(row.started_at).toISOString(),
+  timings: {
+    ...(row.first_token_ms !== null && { firstTokenMs: row.first_token_ms }),
+    ...(row.first_audio_ms !== null && { firstAudioMs: row.first_audio_ms }),
+    totalMs: row.total_ms,
+  },
+});
+
+/**
+ * Conversations and their turns in SQLite. Each conversation belongs to an
+ * owner (the API key's name, or '' without auth), and every lookup is scoped
+ * to it, so one key can't see or touch another's conversations.
+ */
+export class ConversationStore {
+  private db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path, { create: true, strict: true });
+    this.db.exec('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+    this.db.exec(SCHEMA);
+  }
+
+  list = (owner: string): ConversationSummary[] =>
+    this.db.query<ConversationRow, [string]>(`${SUMMARY} WHERE c.owner = ? ORDER BY c.updated_at DESC`).all(owner).map(toSummary);
+
+  summary = (owner: string, id: string): ConversationSummary | null => {
+    const row = this.db.query<ConversationRow, [string, string]>(`${SUMMARY} WHERE c.owner = ? AND c.id = ?`).get(owner, id);
+    return row ? toSummary(row) : null;
+  }
+
+  get = (owner: string, id: string): ConversationDetail | null => {
+    const summary = this.summary(owner, id);
+    if (!summary) return null;
+    const turns = this.db.query<TurnRow, [string]>('SELECT * FROM turns WHERE conversation_id = ? ORDER BY seq').all(id);
+    return { ...summary, turns: turns.map(toTurn) };
+  }
+
+  create = (owner: string, title: string): ConversationSummary => {
+    const id = randomUUID();
+    const now = Date.now();
+    this.db.query('INSERT INTO conversations (id, owner, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run(id, owner, title, now, now);
+    return this.summary(owner, id)!;
+  }
+
+  rename = (owner: string, id: string, title: string): ConversationSummary | null => {
+    const { changes } = this.db.query('UPDATE conversations SET title = ? WHERE owner = ? AND id = ?').run(title, owner, id);
+    return changes ? this.summary(owner, id) : null;
+  }
+
+  remove = (owner: string, id: string) =>
+    this.db.query('DELETE FROM conversations WHERE owner = ? AND id = ?').run(owner, id).changes > 0;
+
+  // Adds a turn at the end and returns its index; null if the conversation is gone
+  appendTurn = (owner: string, id: string, turn: Omit<StoredTurn, 'index'>) =>
+    this.db.transaction(() => {
+      const { changes } = this.db.query('UPDATE conversations SET updated_at = ? WHERE owner = ? AND id = ?').run(Date.now(), owner, id);
+      if (!changes) return null;
+      const { seq } = this.db.query<{ seq: number }, [string]>('SELECT COALESCE(MAX(seq), -1) + 1 AS seq FROM turns WHERE conversation_id = ?').get(id)!;
+      this.db.query(`
+        INSERT INTO turns (conversation_id, seq, prompt, reply, tools, model, voice, status, started_at, first_token_ms, first_audio_ms, total_ms)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id, seq, turn.prompt, turn.reply, JSON.stringify(turn.tools), turn.model, turn.voice, turn.status,
+        Date.parse(turn.startedAt), turn.timings.firstTokenMs ?? null, turn.timings.firstAudioMs ?? null, turn.timings.totalMs,
+      );
+      return { summary: this.summary(owner, id)!, index: seq };
+    })();
+
+  // Audio usually starts after the reply text is stored, if at all
+  setFirstAudio = (id: string, index: number, ms: number) => {
+    this.db.query('UPDATE turns SET first_audio_ms = ? WHERE conversation_id = ? AND seq = ? AND first_audio_ms IS NULL').run(ms, id, index);
+  }
+}
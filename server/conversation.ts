@@ -0,0 +1,45 @@
+import type { ModelMessage } from 'ai';
+
+export interface HistoryBudget {
+  maxTurns: number;
+  maxTokens: number;
+}
+
+// Rough count, good enough to keep prompts under a model's context window
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+type Turn = { user: string; assistant: string };
+
+/**
+ * The running conversation of one client. Turns are only recorded once the
+ * assistant has answered, and the oldest turns are dropped first when the
+ * history goes over its turn or token budget.
+ */
+export class ConversationHistory {
+  private turns: Turn[] = [];
+
+  constructor(private budget: HistoryBudget) {}
+
+  // The messages to send to the model for a new user prompt
+  messagesFor = (prompt: string): ModelMessage[] => [
+    ...this.turns.flatMap((t): ModelMessage[] => [
+      { role: 'user', content: t.user },
+      { role: 'assistant', content: t.assistant },
+    ]),
+    { role: 'user', content: prompt },
+  ];
+
+  commit = (user: string, assistant: string) => {
+    this.turns.push({ user, assistant });
+    this.trim();
+  }
+
+  size = () => this.turns.length;
+
+  private tokens = () => this.turns.reduce((sum, t) => sum + estimateTokens(t.user) + estimateTokens(t.assistant), 0);
+
+  private trim = () => {
+    while (this.turns.length > this.budget.maxTurns) this.turns.shift();
+    while (this.turns.length > 1 && this.tokens() > this.budget.maxTokens) this.turns.shift();
+  }
+}
@@ -0,0 +1,40 @@
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import { createScriptedModel, type ScriptedProviderOptions } from './scripted-provider';
+
+export type LlmConfig =
+  | { provider: 'openai'; model: string }
+  | { provider: 'openai-compatible'; model: string; baseURL: string; apiKey?: string }
+  | ({ provider: 'scripted' } & ScriptedProviderOptions);
+
+type ProviderFactory<C extends LlmConfig = LlmConfig> = (config: C) => LanguageModel;
+
+const providers = new Map<string, ProviderFactory>();
+
+export const registerLlmProvider = <C extends LlmConfig>(name: C['provider'], factory: ProviderFactory<C>) => {
+  // Only ever called with configs for its own provider, looked up by name
+  providers.set(name, factory as ProviderFactory);
+};
+
+export const createLanguageModel = (config: LlmConfig): LanguageModel => {
+  const factory = providers.get(config.provider);
+  if (!factory) throw new Error(`Unknown LLM provider "${config.provider}" (known: ${[...providers.keys()].join(', ')})`);
+  return factory(config);
+};
+
+// The id sessions pick a model by: the model name, or the scripted mode
+export const modelIdOf = (config: LlmConfig) => 'model' in config ? config.model : config.mode;
+
+// The same provider with another model
+export const withModel = (config: LlmConfig, model: string): LlmConfig =>
+  'model' in config ? { ...config, model } : { ...config, mode: model === 'echo' ? 'echo' : 'fixture' };
+
+export const describeLlm = (config: LlmConfig) => `${config.provider}/${modelIdOf(config)}`;
+
+registerLlmProvider<Extract<LlmConfig, { provider: 'openai' }>>('openai', ({ model }) => openai(model));
+
+// llama.cpp, Ollama, vLLM and friends only speak the chat completions API
+registerLlmProvider<Extract<LlmConfig, { provider: 'openai-compatible' }>>('openai-compatible', ({ model, baseURL, apiKey }) =>
+  createOpenAI({ baseURL, apiKey: apiKey ?? 'not-needed', name: 'openai-compatible' }).chat(model));
+
+registerLlmProvider<Extract<LlmConfig, { provider: 'scripted' }>>('scripted', createScriptedModel);
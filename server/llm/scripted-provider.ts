@@ -0,0 +1,140 @@
+import { readFileSync } from 'fs';
+import type { LanguageModel } from 'ai';
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doStream']>[0];
+
+export interface ScriptedProviderOptions {
+  // 'echo' repeats the user's last message, 'fixture' cycles through canned replies
+  mode: 'echo' | 'fixture';
+  // JSON file holding an array of replies, used in fixture mode: strings, or
+  // { "tool": name, "input": {...} } to call a tool instead
+  fixtureFile?: string;
+  firstTokenDelayMs?: number;
+  tokenDelayMs?: number;
+}
+
+type ScriptedReply = string | { tool: string; input: unknown };
+type Reply = { text: string } | { toolCall: { toolCallId: string; toolName: string; input: string } };
+
+const isScriptedReply = (r: unknown): r is ScriptedReply =>
+  typeof r === 'string' || (typeof r === 'object' && r !== null && typeof (r as { tool?: unknown }).tool === 'string');
+
+const DEFAULT_REPLIES: ScriptedReply[] = [
+  'Hi there! This is a scripted reply, so no model was called.',
+  'Sure. Here is another canned answer, streamed word by word.',
+  'That is all I have. The replies start over from the top now.',
+];
+
+// The tool results the previous step got back, if that step called tools
+const toolResults = ({ prompt }: CallOptions) => {
+  const last = prompt.at(-1);
+  if (last?.role !== 'tool') return null;
+  return last.content
+    .map(part => `${part.toolName} returned ${JSON.stringify(part.output.value)}`)
+    .join(', ');
+};
+
+const lastUserText = ({ prompt }: CallOptions) => {
+  const message = prompt.findLast(m => m.role === 'user');
+  if (!message || message.role !== 'user') return '';
+  return message.content.map(part => part.type === 'text' ? part.text : '').join('');
+};
+
+// Words with their trailing whitespace, roughly how real models chunk text
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+});
+
+/**
+ * Language model that streams canned text with realistic pacing, for offline
+ * development and reproducible demos. Replies in fixture mode are deterministic:
+ * the n-th call of a server run always gets the n-th reply.
+ */
+export const createScriptedModel = (options: ScriptedProviderOptions): LanguageModelV2 => {
+  const replies: ScriptedReply[] = options.fixtureFile
+    ? JSON.parse(readFileSync(options.fixtureFile, 'utf8'))
+    : DEFAULT_REPLIES;
+  if (!Array.isArray(replies) || !replies.length || !replies.every(isScriptedReply)) {
+    throw new Error(`Scripted LLM fixture ${options.fixtureFile} must be a non-empty array of strings or tool calls`);
+  }
+  let calls = 0;
+
+  const reply = (call: CallOptions): Reply => {
+    // The step after a tool call reads the results back
+    const results = toolResults(call);
+    if (results) return { text: `Done: ${results}.` };
+    if (options.mode === 'echo') return { text: `You said: ${lastUserText(call)}` };
+
+    const next = replies[calls % replies.length];
+    const toolCallId = `call-${calls++}`;
+    return typeof next === 'string'
+      ? { text: next }
+      : { toolCall: { toolCallId, toolName: next.tool, input: JSON.stringify(next.input ?? {}) } };
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'scripted',
+    modelId: options.mode,
+    supportedUrls: {},
+
+    doGenerate: async (call) => {
+      const next = reply(call);
+      if ('toolCall' in next) {
+        return {
+          content: [{ type: 'tool-call', ...next.toolCall }],
+          finishReason: 'tool-calls',
+          usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+          warnings: [],
+        };
+      }
+      const outputTokens = tokenize(next.text).length;
+      return {
+        content: [{ type: 'text', text: next.text }],
+        finishReason: 'stop',
+        usage: { inputTokens: 0, outputTokens, totalTokens: outputTokens },
+        warnings: [],
+      };
+    },
+
+    doStream: async (call) => {
+      const next = reply(call);
+      const tokens = 'text' in next ? tokenize(next.text) : [];
+      const { firstTokenDelayMs = 300, tokenDelayMs = 40 } = options;
+      const stream = new ReadableStream({
+        async start(controller) {
+          try {
+            controller.enqueue({ type: 'stream-start', warnings: [] });
+            if ('toolCall' in next) {
+              await sleep(firstTokenDelayMs, call.abortSignal);
+              controller.enqueue({ type: 'tool-call', ...next.toolCall });
+              controller.enqueue({ type: 'finish', finishReason: 'tool-calls', usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 } });
+              controller.close();
+              return;
+            }
+            controller.enqueue({ type: 'text-start', id: '0' });
+            for (const [i, delta] of tokens.entries()) {
+              await sleep(i ? tokenDelayMs : firstTokenDelayMs, call.abortSignal);
+              controller.enqueue({ type: 'text-delta', id: '0', delta });
+            }
+            controller.enqueue({ type: 'text-end', id: '0' });
+            controller.enqueue({
+              type: 'finish',
+              finishReason: 'stop',
+              usage: { inputTokens: 0, outputTokens: tokens.length, totalTokens: tokens.length },
+            });
+            controller.close();
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+      });
+      return { stream };
+    },
+  };
+};
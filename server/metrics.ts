@@ -0,0 +1,86 @@
+// A minimal Prometheus registry: counters, gauges and histograms rendered in
+// the text exposition format (version 0.0.4)
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string | number>;
+
+const labelKey = (labels: Labels = {}) => Object.entries(labels)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([k, v]) => `${k}="${String(v).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+  .join(',');
+
+const line = (name: string, key: string, value: number) =>
+  `${name}${key ? `{${key}}` : ''} ${Number.isFinite(value) ? value : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN'}`;
+
+interface Metric {
+  render(): string[];
+}
+
+// A value that only goes up. With collect, it is read from elsewhere when scraped.
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string, private collect?: () => Array<[Labels, number]>) {}
+
+  inc = (labels?: Labels, by = 1) => {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render = () => {
+    const values = this.collect ? this.collect().map(([labels, v]) => [labelKey(labels), v] as const) : [...this.values];
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...(values.length ? values : [['', 0] as const]).map(([key, v]) => line(this.name, key, v)),
+    ];
+  }
+}
+
+// A value read when scraped
+export class Gauge implements Metric {
+  constructor(private name: string, private help: string, private collect: () => number | Array<[Labels, number]>) {}
+
+  render = () => {
+    const value = this.collect();
+    const values = typeof value === 'number' ? [['', value] as const] : value.map(([labels, v]) => [labelKey(labels), v] as const);
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, ...values.map(([key, v]) => line(this.name, key, v))];
+  }
+}
+
+export class Histogram implements Metric {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(private name: string, private help: string, private buckets: number[]) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe = (value: number) => {
+    this.buckets.forEach((bound, i) => { if (value <= bound) this.counts[i]++; });
+    this.sum += value;
+    this.count++;
+  }
+
+  render = () => [
+    `# HELP ${this.name} ${this.help}`,
+    `# TYPE ${this.name} histogram`,
+    ...this.buckets.map((bound, i) => line(`${this.name}_bucket`, `le="${bound}"`, this.counts[i])),
+    line(`${this.name}_bucket`, 'le="+Inf"', this.count),
+    line(`${this.name}_sum`, '', this.sum),
+    line(`${this.name}_count`, '', this.count),
+  ];
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register = <M extends Metric>(metric: M) => {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render = () => this.metrics.flatMap(m => m.render()).join('\n') + '\n';
+}
@@ -0,0 +1,87 @@
+import type { ModerationReason } from '../../shared/protocol';
+import { KeywordModerator, type KeywordModeratorOptions } from './keyword-moderator';
+import type { ModerationDecision, ModerationTarget, Moderator } from './types';
+
+export * from './types';
+export { KeywordModerator, type ModerationRule } from './keyword-moderator';
+
+export type ModerationConfig = KeywordModeratorOptions;
+
+const ALLOW: ModerationDecision = { action: 'allow' };
+
+// The built-in moderators, leaving out those with nothing to check
+export const createModerators = (config: ModerationConfig): Moderator[] => {
+  const keyword = new KeywordModerator(config);
+  return keyword.size ? [keyword] : [];
+};
+
+/**
+ * Runs prompts and replies through the moderators in order. A rewrite is
+ * passed on to the next moderator; the first block ends it.
+ */
+export class ModerationPipeline {
+  constructor(private moderators: Moderator[]) {}
+
+  get enabled() { return this.moderators.length > 0; }
+  names = () => this.moderators.map(m => m.name);
+
+  moderate = async (text: string, target: ModerationTarget): Promise<ModerationDecision> => {
+    let current = text;
+    let reason: ModerationReason | null = null;
+    for (const moderator of this.moderators) {
+      const decision = await moderator.moderate(current, target);
+      if (decision.action === 'block') return decision;
+      if (decision.action === 'rewrite') {
+        current = decision.text;
+        reason ??= decision.reason;
+      }
+    }
+    return reason ? { action: 'rewrite', text: current, reason } : ALLOW;
+  }
+
+  createOutputFilter = () => new OutputModerationFilter(this);
+}
+
+// Text to show and speak, and the decision that produced it
+export interface ModeratedText {
+  text: string;
+  decision: ModerationDecision;
+}
+
+/**
+ * Moderates a streamed reply. Tokens are held back until a word ends, so a
+ * word split across tokens is still caught; phrases and patterns that span a
+ * word boundary may not be. Without moderators, text passes straight through.
+ */
+export class OutputModerationFilter {
+  private pending = '';
+
+  constructor(private pipeline: ModerationPipeline) {}
+
+  push = async (text: string): Promise<ModeratedText> => {
+    if (!this.pipeline.enabled) return { text, decision: ALLOW };
+    this.pending += text;
+    // Up to and including the last whitespace
+    const cut = this.pending.search(/\s\S*$/) + 1;
+    if (cut <= 0) return { text: '', decision: ALLOW };
+    const ready = this.pending.slice(0, cut);
+    this.pending = this.pending.slice(cut);
+    return this.check(ready);
+  }
+
+  // Whatever is still held back, at the end of the reply or before a tool call
+  flush = async (): Promise<ModeratedText> => {
+    const rest = this.pending;
+    this.pending = '';
+    return rest ? this.check(rest) : { text: '', decision: ALLOW };
+  }
+
+  private check = async (text: string): Promise<ModeratedText> => {
+    const decision = await this.pipeline.moderate(text, 'output');
+    switch (decision.action) {
+      case 'allow': return { text, decision };
+      case 'rewrite': return { text: decision.text, decision };
+      case 'block': return { text: '', decision };
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import { MODERATION_REASONS, type ModerationReason } from '../../shared/protocol';
+import type { ModerationDecision, ModerationTarget, Moderator } from './types';
+
+export interface ModerationRule {
+  // Whole words or phrases, matched case-insensitively...
+  words?: string[];
+  // ...and/or a regular expression
+  pattern?: string;
+  flags?: string;
+  reason: ModerationReason;
+  action: 'block' | 'rewrite';
+  // What a rewrite puts in place of each match; asterisks of the same length by default
+  replacement?: string;
+  // Both by default
+  targets?: ModerationTarget[];
+}
+
+export interface KeywordModeratorOptions {
+  // JSON array of ModerationRule
+  rulesFile?: string;
+  // Words that block with reason blocked_term
+  blocklist: string[];
+}
+
+type CompiledRule = ModerationRule & { regexes: RegExp[] };
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isRule = (v: unknown): v is ModerationRule => {
+  const rule = v as ModerationRule;
+  return typeof rule === 'object' && rule !== null
+    && (Array.isArray(rule.words) || typeof rule.pattern === 'string')
+    && MODERATION_REASONS.includes(rule.reason)
+    && (rule.action === 'block' || rule.action === 'rewrite');
+};
+
+const compile = (rule: ModerationRule): CompiledRule => {
+  const regexes: RegExp[] = [];
+  const words = (rule.words ?? []).map(w => w.trim()).filter(Boolean);
+  if (words.length) regexes.push(new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escape).join('|')})(?![\\p{L}\\p{N}])`, 'giu'));
+  // Always global, so a rewrite replaces every match
+  if (rule.pattern) regexes.push(new RegExp(rule.pattern, [...new Set(`${rule.flags ?? ''}g`)].join('')));
+  return { ...rule, regexes };
+};
+
+/**
+ * Local word lists and regular expressions. Cheap enough to run on every
+ * token of a reply, and blind to anything a list doesn't spell out.
+ */
+export class KeywordModerator implements Moderator {
+  readonly name = 'keyword';
+  private rules: CompiledRule[];
+
+  constructor(options: KeywordModeratorOptions) {
+    const rules: unknown = options.rulesFile ? JSON.parse(readFileSync(options.rulesFile, 'utf8')) : [];
+    if (!Array.isArray(rules) || !rules.every(isRule)) {
+      throw new Error(`Moderation rules file ${options.rulesFile} must be an array of {words or pattern, reason, action} objects`);
+    }
+    if (options.blocklist.length) rules.push({ words: options.blocklist, reason: 'blocked_term', action: 'block' });
+    this.rules = rules.map(compile);
+  }
+
+  get size() { return this.rules.length; }
+
+  moderate = (text: string, target: ModerationTarget): ModerationDecision => {
+    let rewritten = text;
+    let reason: ModerationReason | null = null;
+    for (const rule of this.rules) {
+      if (rule.targets && !rule.targets.includes(target)) continue;
+      for (const regex of rule.regexes) {
+        regex.lastIndex = 0;
+        if (!regex.test(rewritten)) continue;
+        if (rule.action === 'block') return { action: 'block', reason: rule.reason };
+        rewritten = rewritten.replace(regex, match => rule.replacement ?? '*'.repeat(match.length));
+        reason ??= rule.reason;
+      }
+    }
+    return reason ? { action: 'rewrite', text: rewritten, reason } : { action: 'allow' };
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { KeywordModerator, ModerationPipeline, type ModerationRule, type Moderator } from '.';
+
+const rulesFile = (rules: unknown) => {
+  const path = join(mkdtempSync(join(tmpdir(), 'moderation-')), 'rules.json');
+  writeFileSync(path, JSON.stringify(rules));
+  return path;
+};
+
+const RULES: ModerationRule[] = [
+  { words: ['darn'], reason: 'profanity', action: 'rewrite' },
+  { pattern: '\\b\\d{3}-\\d{2}-\\d{4}\\b', reason: 'personal_data', action: 'rewrite', replacement: '[redacted]', targets: ['output'] },
+];
+
+const keyword = (blocklist: string[] = [], rules = RULES) => new KeywordModerator({ rulesFile: rulesFile(rules), blocklist });
+
+describe('KeywordModerator', () => {
+  test('blocks whole words from the blocklist, in any case', () => {
+    const moderator = keyword(['forbidden thing']);
+    expect(moderator.moderate('Tell me the Forbidden Thing now', 'prompt')).toEqual({ action: 'block', reason: 'blocked_term' });
+    expect(moderator.moderate('Nothing forbidden things here', 'prompt')).toEqual({ action: 'allow' });
+  });
+
+  test('rewrites every match, with asterisks or the replacement', () => {
+    const moderator = keyword();
+    expect(moderator.moderate('Darn it, darn it all', 'prompt'))
+      .toEqual({ action: 'rewrite', text: '**** it, **** it all', reason: 'profanity' });
+    expect(moderator.moderate('It is 123-45-6789 or 987-65-4321', 'output'))
+      .toEqual({ action: 'rewrite', text: 'It is [redacted] or [redacted]', reason: 'personal_data' });
+  });
+
+  test('applies rules only to their targets', () => {
+    expect(keyword().moderate('It is 123-45-6789', 'prompt')).toEqual({ action: 'allow' });
+  });
+
+  test('refuses a malformed rules file', () => {
+    expect(() => keyword([], [{ words: ['x'], reason: 'rudeness', action: 'block' }] as never)).toThrow('must be an array');
+  });
+});
+
+describe('ModerationPipeline', () => {
+  const shout: Moderator = { name: 'shout', moderate: text => ({ action: 'rewrite', text: text.toUpperCase(), reason: 'harassment' }) };
+
+  test('passes rewrites on and keeps the first reason', async () => {
+    const pipeline = new ModerationPipeline([keyword(), shout]);
+    expect(await pipeline.moderate('oh darn', 'prompt')).toEqual({ action: 'rewrite', text: 'OH ****', reason: 'profanity' });
+  });
+
+  test('stops at the first block', async () => {
+    const pipeline = new ModerationPipeline([keyword(['nope']), shout]);
+    expect(await pipeline.moderate('nope', 'prompt')).toEqual({ action: 'block', reason: 'blocked_term' });
+  });
+
+  test('filters streamed replies a word at a time', async () => {
+    const filter = new ModerationPipeline([keyword()]).createOutputFilter();
+    const texts = [];
+    for (const token of ['Well', ' da', 'rn, that ', 'is 123-45-', '6789']) texts.push((await filter.push(token)).text);
+    texts.push((await filter.flush()).text);
+    // A word split across tokens is still caught
+    expect(texts.join('')).toBe('Well ****, that is [redacted]');
+    expect(texts[1]).toBe('Well ');
+  });
+
+  test('lets everything through without moderators', async () => {
+    const filter = new ModerationPipeline([]).createOutputFilter();
+    expect(await filter.push('Hel')).toEqual({ text: 'Hel', decision: { action: 'allow' } });
+  });
+});
@@ -0,0 +1,20 @@
+import type { ModerationReason } from '../../shared/protocol';
+
+// The user's prompt, or the assistant's reply as it streams
+export type ModerationTarget = 'prompt' | 'output';
+
+export type ModerationDecision =
+  | { action: 'allow' }
+  | { action: 'block'; reason: ModerationReason }
+  // text is the whole input with the offending parts replaced
+  | { action: 'rewrite'; text: string; reason: ModerationReason };
+
+/**
+ * One step of the moderation pipeline. Moderators run in order, each on the
+ * text the previous one let through; the first block wins. May be async, e.g.
+ * to ask a hosted moderation API.
+ */
+export interface Moderator {
+  readonly name: string;
+  moderate(text: string, target: ModerationTarget): ModerationDecision | Promise<ModerationDecision>;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { PhraseSegmenter, type SegmenterOptions } from './phrase-segmenter';
+
+const OPTIONS: SegmenterOptions = { minChars: 20, maxChars: 200, firstPhraseMinChars: 10 };
+
+// Every phrase, streamed in the given chunks
+const phrasesOf = (chunks: string[], options = OPTIONS) => {
+  const segmenter = new PhraseSegmenter(options);
+  return [...chunks.flatMap(segmenter.push), ...segmenter.end()];
+};
+
+describe('PhraseSegmenter', () => {
+  test('does not end sentences at abbreviations', () => {
+    expect(phrasesOf(['Sure, I can help with that. Dr. Smith will see you at 3 p.m. on Monday. Bring your card.'])).toEqual([
+      'Sure, I can help with that.',
+      'Dr. Smith will see you at 3 p.m. on Monday.',
+      'Bring your card.',
+    ]);
+    expect(phrasesOf(['Here you go. Some fruit, e.g. apples and pears, keeps well. Others do not.'])).toEqual([
+      'Here you go.',
+      'Some fruit, e.g. apples and pears, keeps well.',
+      'Others do not.',
+    ]);
+  });
+
+  test('does not end sentences at decimal points', () => {
+    expect(phrasesOf(['It costs 3.50 dollars in total today. Pi is 3.14159, roughly.'])).toEqual([
+      'It costs 3.50 dollars in total today.',
+      'Pi is 3.14159, roughly.',
+    ]);
+  });
+
+  test('waits for closing quotes and brackets', () => {
+    expect(phrasesOf(['Okay then. He said "Stop. Right now." and then he left the room.'])).toEqual([
+      'Okay then.',
+      'He said "Stop. Right now."',
+      'and then he left the room.',
+    ]);
+    expect(phrasesOf(['Here is the plan. Read the notes first (all of them.) Then start writing.'])).toEqual([
+      'Here is the plan.',
+      'Read the notes first (all of them.)',
+      'Then start writing.',
+    ]);
+  });
+
+  test('cuts the first phrase early, at a clause break', () => {
+    const segmenter = new PhraseSegmenter(OPTIONS);
+    expect(segmenter.push('Well, that depends, ')).toEqual(['Well, that depends,']);
+    // Later phrases wait for a sentence end
+    expect(segmenter.push('mostly on the weather, ')).toEqual([]);
+    expect(segmenter.push('and on you. ')).toEqual(['mostly on the weather, and on you.']);
+  });
+
+  test('only cuts at whitespace, across chunks', () => {
+    expect(phrasesOf(['Hello', ' there,', ' my fri', 'end. How', ' are you?'])).toEqual([
+      'Hello there,',
+      'my friend. How are you?',
+    ]);
+  });
+
+  test('cuts long phrases at the last clause break or space', () => {
+    const options = { ...OPTIONS, maxChars: 40 };
+    expect(phrasesOf(['We went to the shops, the park and the river and then all the way back home.'], options)).toEqual([
+      'We went to the shops,',
+      'the park and the river and then all the',
+      'way back home.',
+    ]);
+  });
+
+  test('hands over whole words when the text stalls', () => {
+    const segmenter = new PhraseSegmenter(OPTIONS);
+    expect(segmenter.push('one two three four')).toEqual([]);
+    expect(segmenter.flushIdle()).toEqual(['one two three']);
+    expect(segmenter.push(' five')).toEqual([]);
+    expect(segmenter.end()).toEqual(['four five']);
+  });
+});
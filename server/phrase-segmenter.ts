@@ -0,0 +1,111 @@
+export interface SegmenterOptions {
+  // Phrases shorter than this wait for more text, so TTS gets enough context
+  minChars: number;
+  // Past this, a phrase is cut at the last clause break or space
+  maxChars: number;
+  // The first phrase of a turn may be cut at any clause break once it is this long
+  firstPhraseMinChars: number;
+}
+
+// Lowercase, without the final period
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'approx', 'no', 'fig',
+  'inc', 'ltd', 'co', 'corp', 'dept', 'est', 'min', 'max', 'jan', 'feb', 'mar', 'apr', 'jun',
+  'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'e.g', 'i.e', 'a.m', 'p.m', 'u.s', 'u.k', 'ph.d',
+]);
+
+const CLOSERS = `"')]”’`;
+const OPENERS = `"'([“‘`;
+
+type Boundary = 'sentence' | 'clause' | null;
+
+// What kind of break, if any, ends the text just before index `at`
+const boundaryBefore = (text: string, at: number, inQuote: boolean): Boundary => {
+  if (text[at] === '\n') return 'sentence';
+  let end = at - 1;
+  while (end >= 0 && CLOSERS.includes(text[end])) end--;
+  const c = text[end];
+
+  if (c === '.' || c === '!' || c === '?') {
+    if (inQuote) return null;
+    if (c !== '.') return 'sentence';
+    if (text[end - 1] === '.') return 'clause'; // ellipsis, a pause rather than a stop
+    let start = end;
+    while (start > 0 && !/\s/.test(text[start - 1])) start--;
+    while (start < end && OPENERS.includes(text[start])) start++;
+    const word = text.slice(start, end);
+    if (ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Z]$/.test(word)) return null;
+    return 'sentence';
+  }
+  if (c === '…') return 'clause';
+  if (c === ',' || c === ';' || c === ':') return 'clause';
+  // Spaced dashes: "this — or that"
+  if ((c === '—' || c === '–' || c === '-') && /\s/.test(text[end - 1] ?? '')) return 'clause';
+  return null;
+};
+
+/**
+ * Splits a stream of LLM tokens into phrases for TTS. Cuts happen only at
+ * whitespace, after a sentence end (not an abbreviation, initial or decimal
+ * point), or after a clause break when a phrase would otherwise get too long.
+ * Sentence ends inside quotes wait for the closing quote.
+ */
+export class PhraseSegmenter {
+  private buffer = '';
+  private first = true;
+
+  constructor(private options: SegmenterOptions) {}
+
+  // Feed more text, get back the phrases it completed
+  push = (text: string): string[] => {
+    this.buffer += text;
+    const phrases: string[] = [];
+    let cut: number;
+    while ((cut = this.findCut()) > 0) phrases.push(...this.take(cut));
+    return phrases;
+  }
+
+  // Text has stalled: hand over what is there up to the last whole word
+  flushIdle = (): string[] => {
+    const cut = /\s$/.test(this.buffer) ? this.buffer.length : this.buffer.search(/\s\S*$/);
+    if (cut < Math.min(this.options.minChars, this.options.firstPhraseMinChars)) return [];
+    return this.take(cut);
+  }
+
+  // The text stream is over: everything left is the last phrase
+  end = (): string[] => this.take(this.buffer.length);
+
+  private take = (cut: number): string[] => {
+    const phrase = this.buffer.slice(0, cut).trim();
+    this.buffer = this.buffer.slice(cut).replace(/^\s+/, '');
+    if (!phrase) return [];
+    this.first = false;
+    return [phrase];
+  }
+
+  private findCut = (): number => {
+    const { minChars, maxChars, firstPhraseMinChars } = this.options;
+    const text = this.buffer;
+    let inQuote = false;
+    let lastClause = -1;
+    let lastSpace = -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (c === '“') inQuote = true;
+      else if (c === '”') inQuote = false;
+      else if (c === '"') inQuote = !inQuote;
+
+      if (i > maxChars) return lastClause > 0 ? lastClause : lastSpace;
+      if (!/\s/.test(c)) continue;
+
+      lastSpace = i;
+      const boundary = boundaryBefore(text, i, inQuote);
+      if (!boundary) continue;
+      if (boundary === 'clause') lastClause = i;
+      if (this.first && i >= firstPhraseMinChars) return i;
+      if (boundary === 'sentence' && i >= minChars) return i;
+    }
+    return -1;
+  }
+}
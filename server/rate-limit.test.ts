@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { ProtocolError } from '../shared/protocol';
+import { RateLimiter } from './rate-limit';
+
+const LIMITS = { messagesPerMinute: 60, messageBurst: 3, llmTokensPerMinute: 600 };
+
+let now = 0;
+const advance = (ms: number) => setSystemTime(new Date(now += ms));
+
+beforeEach(() => {
+  now = Date.parse('2026-01-01T00:00:00Z');
+  setSystemTime(new Date(now));
+});
+afterEach(() => { setSystemTime(); });
+
+// The rate_limited error's retry time, or null when it passes
+const retryAfter = (check: () => void) => {
+  try {
+    check();
+    return null;
+  } catch (error) {
+    if (!(error instanceof ProtocolError) || error.code !== 'rate_limited') throw error;
+    return error.retryAfterMs ?? null;
+  }
+};
+
+describe('RateLimiter', () => {
+  test('lets a burst through, then refills one message at a time', () => {
+    const limiter = new RateLimiter(LIMITS);
+    for (let i = 0; i < 3; i++) limiter.message('a');
+    expect(retryAfter(() => limiter.message('a'))).toBe(1000);
+    advance(500);
+    expect(retryAfter(() => limiter.message('a'))).toBe(500);
+    advance(500);
+    expect(retryAfter(() => limiter.message('a'))).toBeNull();
+  });
+
+  test('keeps keys apart', () => {
+    const limiter = new RateLimiter(LIMITS);
+    for (let i = 0; i < 3; i++) limiter.message('a');
+    expect(retryAfter(() => limiter.message('b'))).toBeNull();
+  });
+
+  test('charges LLM tokens after the fact, refusing until they are paid back', () => {
+    const limiter = new RateLimiter(LIMITS);
+    limiter.checkLlm('a');
+    limiter.chargeLlm('a', 700);
+    // 100 tokens short, at 10 a second
+    expect(retryAfter(() => limiter.checkLlm('a'))).toBe(10_000);
+    advance(10_000);
+    expect(retryAfter(() => limiter.checkLlm('a'))).toBeNull();
+  });
+
+  test('takes per-key overrides, and 0 turns a limit off', () => {
+    const limiter = new RateLimiter(LIMITS);
+    limiter.message('vip', { messageBurst: 10 });
+    for (let i = 0; i < 9; i++) limiter.message('vip');
+    expect(retryAfter(() => limiter.message('vip'))).not.toBeNull();
+    for (let i = 0; i < 100; i++) limiter.message('free', { messagesPerMinute: 0 });
+  });
+});
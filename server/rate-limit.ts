@@ -0,0 +1,102 @@
+import { ProtocolError } from '../shared/protocol';
+
+export interface RateLimits {
+  // JSON messages per minute, and how many may come at once; 0 turns it off
+  messagesPerMinute: number;
+  messageBurst: number;
+  // LLM tokens (prompt and reply) per minute; 0 turns it off
+  llmTokensPerMinute: number;
+}
+
+/**
+ * Holds up to `capacity` units and refills continuously. The level may go
+ * below zero when a cost is only known afterwards; nothing passes until it
+ * has refilled.
+ */
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private perMinute: number) {
+    this.level = capacity;
+  }
+
+  // Milliseconds until `amount` is available, 0 if it is now
+  wait = (amount: number) => {
+    this.refill();
+    return this.level >= amount ? 0 : Math.ceil((amount - this.level) / this.perMinute * 60_000);
+  }
+
+  take = (amount: number) => {
+    this.refill();
+    this.level -= amount;
+  }
+
+  isFull = () => {
+    this.refill();
+    return this.level >= this.capacity;
+  }
+
+  private refill = () => {
+    const now = Date.now();
+    this.level = Math.min(this.capacity, this.level + (now - this.updatedAt) / 60_000 * this.perMinute);
+    this.updatedAt = now;
+  }
+}
+
+type Buckets = { messages: TokenBucket | null; llmTokens: TokenBucket | null };
+
+const limited = (what: string, retryAfterMs: number) =>
+  new ProtocolError('rate_limited', `Too many ${what}, retry in ${Math.ceil(retryAfterMs / 1000)}s`, retryAfterMs);
+
+/**
+ * Rate limits by key: the client's token, or its IP without auth. All
+ * connections with the same key share one allowance.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Buckets>();
+
+  constructor(private defaults: RateLimits) {
+    // Forget keys that have been quiet long enough to be back at full allowance
+    setInterval(this.prune, 60_000).unref?.();
+  }
+
+  // Counts one message, or throws a rate_limited ProtocolError
+  message = (key: string, limits?: Partial<RateLimits>) => {
+    const bucket = this.bucketsFor(key, limits).messages;
+    if (!bucket) return;
+    const wait = bucket.wait(1);
+    if (wait) throw limited('messages', wait);
+    bucket.take(1);
+  }
+
+  // Throws while the key has used up its LLM tokens
+  checkLlm = (key: string, limits?: Partial<RateLimits>) => {
+    const wait = this.bucketsFor(key, limits).llmTokens?.wait(0);
+    if (wait) throw limited('LLM tokens', wait);
+  }
+
+  // Charges a finished LLM call
+  chargeLlm = (key: string, tokens: number, limits?: Partial<RateLimits>) => {
+    this.bucketsFor(key, limits).llmTokens?.take(tokens);
+  }
+
+  private bucketsFor = (key: string, overrides?: Partial<RateLimits>) => {
+    let buckets = this.buckets.get(key);
+    if (!buckets) {
+      const limits = { ...this.defaults, ...overrides };
+      buckets = {
+        messages: limits.messagesPerMinute > 0 ? new TokenBucket(Math.max(1, limits.messageBurst), limits.messagesPerMinute) : null,
+        llmTokens: limits.llmTokensPerMinute > 0 ? new TokenBucket(limits.llmTokensPerMinute, limits.llmTokensPerMinute) : null,
+      };
+      this.buckets.set(key, buckets);
+    }
+    return buckets;
+  }
+
+  private prune = () => {
+    for (const [key, { messages, llmTokens }] of this.buckets) {
+      if ((messages?.isFull() ?? true) && (llmTokens?.isFull() ?? true)) this.buckets.delete(key);
+    }
+  }
+}
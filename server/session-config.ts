@@ -0,0 +1,56 @@
+import {
+  ProtocolError,
+  type ConfigureMessage,
+  type SessionConfig,
+  type SessionConfigLimits,
+} from '../shared/protocol';
+
+export type SessionConfigUpdate = Omit<ConfigureMessage, 'type'>;
+
+const invalid = (message: string) => new ProtocolError('invalid_config', message);
+
+/**
+ * Applies configure messages to a session's settings, within the server's
+ * allowlists. Updates that don't fit are refused as a whole rather than
+ * clamped, so a session never runs with settings it didn't ask for.
+ */
+export class SessionConfigPolicy {
+  constructor(readonly defaults: SessionConfig, readonly limits: SessionConfigLimits) {}
+
+  apply = (current: SessionConfig, update: SessionConfigUpdate): SessionConfig => {
+    const { model, systemPrompt, temperature, maxTokens, voice } = update;
+    const { limits } = this;
+
+    if (typeof model === 'string' && !limits.models.includes(model)) {
+      throw invalid(`Model "${model}" is not allowed (allowed: ${limits.models.join(', ')})`);
+    }
+    if (typeof voice === 'string' && !limits.voices.includes(voice)) {
+      throw invalid(`Unknown voice "${voice}" (available: ${limits.voices.join(', ')})`);
+    }
+    if (typeof systemPrompt === 'string' && systemPrompt.length > limits.systemPromptMaxChars) {
+      throw invalid(`System prompt is longer than ${limits.systemPromptMaxChars} characters`);
+    }
+    if (typeof temperature === 'number' && (temperature < limits.temperature.min || temperature > limits.temperature.max)) {
+      throw invalid(`Temperature must be between ${limits.temperature.min} and ${limits.temperature.max}`);
+    }
+    if (typeof maxTokens === 'number' && (maxTokens < 1 || maxTokens > limits.maxTokens)) {
+      throw invalid(`Max tokens must be between 1 and ${limits.maxTokens}`);
+    }
+
+    // undefined keeps the current value, null the default; so does a blank prompt
+    const prompt = systemPrompt?.trim() === '' ? null : systemPrompt;
+    const pick = <K extends keyof SessionConfig>(key: K, value: SessionConfig[K] | null | undefined) =>
+      value === undefined ? current[key] : value ?? this.defaults[key];
+    const next: SessionConfig = {
+      model: pick('model', model),
+      systemPrompt: pick('systemPrompt', prompt),
+      temperature: pick('temperature', temperature),
+      maxTokens: pick('maxTokens', maxTokens),
+      voice: pick('voice', voice),
+    };
+    // Leave unset values out, so the effective config only names real settings
+    if (next.temperature === undefined) delete next.temperature;
+    if (next.maxTokens === undefined) delete next.maxTokens;
+    return next;
+  }
+}
@@ -0,0 +1,183 @@
+import type { NormalizationRule } from './types';
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December'];
+
+const belowThousand = (n: number): string => {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) words.push(TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : ''));
+  else if (n > 0) words.push(ONES[n]);
+  return words.join(' ');
+};
+
+export const numberToWords = (n: number): string => {
+  if (!Number.isFinite(n)) return String(n);
+  if (n < 0) return `minus ${numberToWords(-n)}`;
+  n = Math.floor(n);
+  if (n < 20) return ONES[n];
+  // Past the trillions TTS does fine reading the digits
+  if (n >= 1e15) return String(n);
+  const groups: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group) groups.unshift(belowThousand(group) + (SCALES[scale] ? ` ${SCALES[scale]}` : ''));
+  }
+  return groups.join(' ');
+};
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+export const ordinalToWords = (n: number) => numberToWords(n).replace(/(\w+)$/, last =>
+  ORDINAL_EXCEPTIONS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`));
+
+// 1999 -> nineteen ninety-nine, 2005 -> two thousand five, 2024 -> twenty twenty-four
+export const yearToWords = (year: number) => {
+  if (year % 1000 < 10) return numberToWords(year);
+  const hi = Math.floor(year / 100);
+  const lo = year % 100;
+  if (lo === 0) return `${numberToWords(hi)} hundred`;
+  return `${numberToWords(hi)} ${lo < 10 ? `oh ${ONES[lo]}` : numberToWords(lo)}`;
+};
+
+const decimalToWords = (text: string) => {
+  const [whole, fraction] = text.replace(/,/g, '').split('.');
+  const spoken = numberToWords(Number(whole));
+  return fraction ? `${spoken} point ${[...fraction].map(d => ONES[Number(d)]).join(' ')}` : spoken;
+};
+
+const digitsToWords = (digits: string) => [...digits].map(d => ONES[Number(d)]).join(' ');
+
+const versionToWords = (version: string) => version.split('.').map(n => numberToWords(Number(n))).join(' point ');
+
+// nineteen ninety -> nineteen nineties
+const pluralWords = (words: string) => words.endsWith('y') ? `${words.slice(0, -1)}ies` : `${words}s`;
+
+const plural = (n: number, one: string, many: string) => n === 1 ? one : many;
+
+const CURRENCIES: Record<string, [string, string, string, string]> = {
+  '$': ['dollar', 'dollars', 'cent', 'cents'],
+  '€': ['euro', 'euros', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+};
+
+const UNITS: Record<string, [string, string]> = {
+  km: ['kilometer', 'kilometers'], m: ['meter', 'meters'], cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'], mi: ['mile', 'miles'], ft: ['foot', 'feet'],
+  kg: ['kilogram', 'kilograms'], g: ['gram', 'grams'], mg: ['milligram', 'milligrams'],
+  lb: ['pound', 'pounds'], lbs: ['pound', 'pounds'], oz: ['ounce', 'ounces'],
+  l: ['liter', 'liters'], ml: ['milliliter', 'milliliters'],
+  mph: ['mile per hour', 'miles per hour'], 'km/h': ['kilometer per hour', 'kilometers per hour'],
+  ms: ['millisecond', 'milliseconds'], hr: ['hour', 'hours'], hrs: ['hour', 'hours'],
+  kb: ['kilobyte', 'kilobytes'], mb: ['megabyte', 'megabytes'], gb: ['gigabyte', 'gigabytes'], tb: ['terabyte', 'terabytes'],
+  '°c': ['degree Celsius', 'degrees Celsius'], '°f': ['degree Fahrenheit', 'degrees Fahrenheit'],
+};
+
+const ABBREVIATIONS: Record<string, string> = {
+  'e.g.': 'for example', 'i.e.': 'that is', 'etc.': 'et cetera', 'vs.': 'versus', 'approx.': 'approximately',
+  'Dr.': 'Doctor', 'Mr.': 'Mister', 'Mrs.': 'Missus', 'Prof.': 'Professor', 'Jr.': 'Junior', 'Sr.': 'Senior',
+};
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+export const englishRules: NormalizationRule[] = [
+  {
+    name: 'abbreviations',
+    apply: text => text.replace(
+      new RegExp(`(?<![\\w.])(${Object.keys(ABBREVIATIONS).map(escape).join('|')})(?=\\s|$|[,;:])`, 'gi'),
+      match => ABBREVIATIONS[match] ?? ABBREVIATIONS[match.toLowerCase()] ?? match),
+  },
+  {
+    name: 'dates',
+    apply: text => text
+      // 2024-03-15
+      .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, y, m, d) =>
+        Number(m) >= 1 && Number(m) <= 12 ? `${MONTHS[Number(m) - 1]} ${ordinalToWords(Number(d))}, ${yearToWords(Number(y))}` : match)
+      // 03/15/2024, US order
+      .replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, (match, m, d, y) =>
+        Number(m) >= 1 && Number(m) <= 12 ? `${MONTHS[Number(m) - 1]} ${ordinalToWords(Number(d))}, ${yearToWords(Number(y))}` : match),
+  },
+  {
+    name: 'times',
+    apply: text => text.replace(/\b(\d{1,2}):(\d{2})(?:\s*([ap])\.?m\.?\b)?/gi, (_, h, m, ap) => {
+      const minutes = Number(m);
+      const spokenMinutes = minutes === 0 ? (ap ? '' : " o'clock") : minutes < 10 ? ` oh ${ONES[minutes]}` : ` ${numberToWords(minutes)}`;
+      return `${numberToWords(Number(h))}${spokenMinutes}${ap ? ` ${ap.toUpperCase()}M` : ''}`;
+    }),
+  },
+  {
+    name: 'digits',
+    apply: text => text
+      // v2.0, 1.2.3
+      .replace(/(?<![\w.])v(\d+(?:\.\d+)+)(?!\w|\.\d)/g, (_, version) => `version ${versionToWords(version)}`)
+      .replace(/(?<![\w.])\d+(?:\.\d+){2,}(?!\w|\.\d)/g, versionToWords)
+      // Phone numbers and IDs, digit by digit: three or more groups, or 555-1234.
+      // Two short groups are left alone, they're ranges and fractions.
+      .replace(/(?<![\w./-])(?:\d+(?:[-/]\d+){2,}|\d{3}-\d{4})(?!\w|[-/]\d)/g, run => run.split(/[-/]/).map(digitsToWords).join(', ')),
+  },
+  {
+    name: 'currency',
+    apply: text => text.replace(/([$€£])\s?(\d[\d,]*)(?:\.(\d{1,2}))?(\s?(?:million|billion|trillion))?/g, (_, symbol, whole, cents, scale) => {
+      const [one, many, subOne, subMany] = CURRENCIES[symbol];
+      const amount = Number(whole.replace(/,/g, ''));
+      if (scale) return `${numberToWords(amount)}${cents ? ` point ${[...cents].map(d => ONES[Number(d)]).join(' ')}` : ''}${scale} ${many}`;
+      const spoken = `${numberToWords(amount)} ${plural(amount, one, many)}`;
+      const sub = cents ? Number(cents.padEnd(2, '0')) : 0;
+      if (!amount && sub) return `${numberToWords(sub)} ${plural(sub, subOne, subMany)}`;
+      return sub ? `${spoken} and ${numberToWords(sub)} ${plural(sub, subOne, subMany)}` : spoken;
+    }),
+  },
+  {
+    name: 'percent',
+    apply: text => text.replace(/(-?\d[\d,]*(?:\.\d+)?)\s?%/g, (_, n) => `${decimalToWords(n)} percent`),
+  },
+  {
+    name: 'units',
+    apply: text => text.replace(
+      // Only a whole word: 2 m&ms has no meters in it
+      new RegExp(`(-?\\d[\\d,]*(?:\\.\\d+)?)\\s?(${Object.keys(UNITS).map(escape).join('|')})(?=$|[\\s.,;:!?)\\]])`, 'gi'),
+      (_, n, unit) => {
+        const [one, many] = UNITS[unit.toLowerCase()];
+        return `${decimalToWords(n)} ${Number(n.replace(/,/g, '')) === 1 ? one : many}`;
+      }),
+  },
+  {
+    name: 'ordinals',
+    apply: text => text.replace(/\b(\d+)(st|nd|rd|th)\b/gi, (_, n) => ordinalToWords(Number(n))),
+  },
+  {
+    name: 'decades',
+    // 1990s, '80s
+    apply: text => text.replace(/(?<![\w.])'?(\d{1,3}0)s\b/g, (_, decade) => {
+      const n = Number(decade);
+      return pluralWords(n >= 1100 && n <= 2099 ? yearToWords(n) : numberToWords(n));
+    }),
+  },
+  {
+    name: 'numbers',
+    apply: text => text.replace(/(?<![\w.])(-?)(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?![\w])/g, (match, sign, whole, fraction, offset: number) => {
+      const n = Number(whole.replace(/,/g, ''));
+      // Digits joined by - . or / are phone numbers, IDs and the like
+      const joined = /\d[-./]$/.test(text.slice(0, offset)) || /^[-./]\d/.test(text.slice(offset + match.length));
+      // Bare four digit numbers are usually years
+      const spoken = !fraction && !joined && !whole.includes(',') && n >= 1100 && n <= 2099
+        ? yearToWords(n)
+        : decimalToWords(whole + (fraction ?? ''));
+      return (sign ? 'minus ' : '') + spoken;
+    }),
+  },
+  {
+    name: 'symbols',
+    apply: text => text.replace(/\s&\s/g, ' and ').replace(/\s\+\s/g, ' plus ').replace(/\s=\s/g, ' equals ')
+      .replace(/\s\*\s|(?<=\w)\*(?=\w)/g, ' times '),
+  },
+];
@@ -0,0 +1,77 @@
+import { englishRules } from './english';
+import { emojiRule, inlineCodeRule, markdownRule, urlRule, whitespaceRule } from './rules';
+import type { NormalizationRule, NormalizerOptions } from './types';
+
+export * from './types';
+
+const languageRules = new Map<string, NormalizationRule[]>([['en', englishRules]]);
+
+// Adds or replaces the language-specific rules (numbers, dates, abbreviations...)
+export const registerLanguageRules = (language: string, rules: NormalizationRule[]) => {
+  languageRules.set(language, rules);
+};
+
+const FENCE = '```';
+
+/**
+ * Turns LLM output into text for the voice model. Fenced code blocks can span
+ * many tokens, so they are removed from the raw stream by a per-turn
+ * CodeFenceFilter; everything else is rewritten one phrase at a time. The text
+ * shown on screen never goes through here.
+ */
+export class SpeechNormalizer {
+  private rules: NormalizationRule[];
+
+  constructor(private options: NormalizerOptions) {
+    if (!languageRules.has(options.language)) {
+      console.warn(`No speech rules for language "${options.language}", using language-neutral rules only`);
+    }
+    const rules = [
+      markdownRule,
+      inlineCodeRule(options.code),
+      urlRule(options.urls),
+      emojiRule,
+      ...(languageRules.get(options.language) ?? []),
+      whitespaceRule,
+    ];
+    this.rules = rules.filter(r => !options.disabledRules.includes(r.name));
+  }
+
+  normalize = (phrase: string) => this.rules.reduce((text, rule) => rule.apply(text), phrase);
+
+  createCodeFilter = () => new CodeFenceFilter(this.options.code === 'replace' ? ' The code is on screen. ' : ' ');
+}
+
+// Streaming filter that swaps ``` fenced blocks for a placeholder
+export class CodeFenceFilter {
+  private pending = '';
+  private inCode = false;
+
+  constructor(private placeholder: string) {}
+
+  push = (text: string): string => {
+    let input = this.pending + text;
+    this.pending = '';
+    let out = '';
+    while (input) {
+      const fence = input.indexOf(FENCE);
+      if (fence < 0) {
+        // Hold back a trailing partial fence until the next token decides it
+        const partial = input.endsWith('``') ? 2 : input.endsWith('`') ? 1 : 0;
+        if (!this.inCode) out += input.slice(0, input.length - partial);
+        this.pending = input.slice(input.length - partial);
+        break;
+      }
+      if (!this.inCode) out += input.slice(0, fence) + this.placeholder;
+      this.inCode = !this.inCode;
+      input = input.slice(fence + FENCE.length);
+    }
+    return out;
+  }
+
+  end = () => {
+    const rest = this.inCode ? '' : this.pending;
+    this.pending = '';
+    return rest;
+  }
+}
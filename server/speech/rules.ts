@@ -0,0 +1,44 @@
+import type { NormalizationRule, NormalizerOptions } from './types';
+
+// Rules that apply whatever the language: they remove things nobody wants read out
+
+export const markdownRule: NormalizationRule = {
+  name: 'markdown',
+  apply: text => text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*\|?(?:\s*:?-{3,}:?\s*\|)+\s*$/gm, '')
+    // Table rows only; a | elsewhere is left alone
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => `${cells.split('|').map(c => c.trim()).filter(Boolean).join(', ')}.`)
+    // Emphasis markers hug the words they wrap, so 2*3*4 isn't emphasis
+    .replace(/(?<![\w*])(\*{1,3}|_{2,3}|~~)(?=\S)([^*_~]*?\S)\1(?![\w*])/g, '$2')
+    .replace(/(^|\s)_(\S[^_]*?)_(?=\s|$|[.,;:!?])/g, '$1$2')
+    // Stray markers left by emphasis split across phrases: opening ones before
+    // a word, closing ones after one, never between operands
+    .replace(/(?<![\w*])\*+(?=[A-Za-z])|(?<=[A-Za-z.,;:!?)])\*+(?![\w*])|~~/g, ''),
+};
+
+export const urlRule = (mode: NormalizerOptions['urls']): NormalizationRule => ({
+  name: 'urls',
+  apply: text => text.replace(/\b(?:https?:\/\/|www\.)[^\s<>()]+[^\s<>().,;:!?'"]/gi, mode === 'replace' ? 'a link' : ''),
+});
+
+export const inlineCodeRule = (mode: NormalizerOptions['code']): NormalizationRule => ({
+  name: 'code',
+  // Short spans are usually names worth saying, longer ones are real code
+  apply: text => text.replace(/`([^`]*)`/g, (_, code: string) =>
+    code.length <= 30 ? code : mode === 'replace' ? 'the code shown' : '').replace(/`/g, ''),
+});
+
+export const emojiRule: NormalizationRule = {
+  name: 'emoji',
+  apply: text => text.replace(/[\p{Extended_Pictographic}\p{Regional_Indicator}\u{FE0F}\u{200D}\u{20E3}]/gu, ''),
+};
+
+export const whitespaceRule: NormalizationRule = {
+  name: 'whitespace',
+  apply: text => text.replace(/\s+/g, ' ').replace(/\s+([,.;:!?])/g, '$1').replace(/^[\s,;:]+/, '').trim(),
+};
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { SpeechNormalizer } from '.';
+import { markdownRule } from './rules';
+
+const normalizer = new SpeechNormalizer({ language: 'en', urls: 'replace', code: 'replace', disabledRules: [] });
+
+describe('markdownRule', () => {
+  test('strips emphasis and bullets', () => {
+    expect(markdownRule.apply('**bold** and *it*')).toBe('bold and it');
+    expect(markdownRule.apply('- one\n* two')).toBe('one\ntwo');
+  });
+
+  test('keeps asterisks between operands', () => {
+    expect(markdownRule.apply('2*3 is 6')).toBe('2*3 is 6');
+    expect(normalizer.normalize('2*3 is 6')).not.toContain('twenty-three');
+  });
+
+  test('reads table rows as lists', () => {
+    expect(normalizer.normalize('| Name | Age |\n|---|---|\n| Bob | 42 |')).toBe('Name, Age. Bob, forty-two.');
+  });
+
+  test('keeps pipes outside tables', () => {
+    expect(markdownRule.apply('a | b')).toBe('a | b');
+  });
+});
+
+describe('english rules', () => {
+  test('reads bare four digit numbers as years', () => {
+    expect(normalizer.normalize('In 1999 we')).toBe('In nineteen ninety-nine we');
+  });
+
+  test('reads no years in joined digit groups', () => {
+    expect(normalizer.normalize('Call 555-1234')).not.toContain('twelve thirty-four');
+    expect(normalizer.normalize('Build 3.1500/2024')).not.toMatch(/fifteen hundred|twenty twenty-four/);
+  });
+
+  test('reads phone numbers digit by digit', () => {
+    expect(normalizer.normalize('Call 555-123-4567.')).toBe('Call five five five, one two three, four five six seven.');
+    expect(normalizer.normalize('Call 555-1234')).toBe('Call five five five, one two three four');
+  });
+
+  test('reads versions point by point', () => {
+    expect(normalizer.normalize('Version 1.2.3 is out')).toBe('Version one point two point three is out');
+    expect(normalizer.normalize('Get v2.0.')).toBe('Get version two point zero.');
+  });
+
+  test('reads decades', () => {
+    expect(normalizer.normalize("the 1990s and the '80s")).toBe('the nineteen nineties and the eighties');
+  });
+
+  test('reads amounts under one unit without the zero', () => {
+    expect(normalizer.normalize('€0.99')).toBe('ninety-nine cents');
+    expect(normalizer.normalize('$3.50')).toBe('three dollars and fifty cents');
+  });
+
+  test('reads symbols between operands', () => {
+    expect(normalizer.normalize('3 * 4 = 12')).toBe('three times four equals twelve');
+    expect(normalizer.normalize('2*3 is 6')).toBe('two times three is six');
+    expect(normalizer.normalize('salt & pepper + oil')).toBe('salt and pepper plus oil');
+  });
+
+  test('reads units only as whole words', () => {
+    expect(normalizer.normalize('Run 5 km.')).toBe('Run five kilometers.');
+    expect(normalizer.normalize('I have 2 m&ms')).toBe('I have two m&ms');
+  });
+});
@@ -0,0 +1,14 @@
+// One step of turning display text into text a voice model reads well
+export interface NormalizationRule {
+  name: string;
+  apply(text: string): string;
+}
+
+export interface NormalizerOptions {
+  language: string;
+  // 'replace' says a short placeholder, 'skip' drops the text entirely
+  urls: 'replace' | 'skip';
+  code: 'replace' | 'skip';
+  // Rule names to leave out, e.g. ['numbers']
+  disabledRules: string[];
+}
@@ -0,0 +1,72 @@
+import { AudioSampleFormat, type AudioFrame } from '../../shared/audio-frame';
+import { ProtocolError } from '../../shared/protocol';
+import { STT_SAMPLE_RATE, type SttBackend, type SttStream } from './types';
+
+export interface AudioInputOptions {
+  sessionId: number;
+  // Rate of the client's microphone audio
+  sampleRate: number;
+  // Turn the final transcript should start, if the client asked for one
+  chatTurnId?: number;
+}
+
+// Linear interpolation, carried across chunks; plenty for speech recognition
+class Resampler {
+  private position = 1;
+  private last = 0;
+
+  constructor(private step: number) {}
+
+  process = (input: Float32Array) => {
+    if (this.step === 1) return input;
+    // Index 0 is the last sample of the previous chunk
+    const at = (i: number) => i === 0 ? this.last : input[i - 1];
+    const out: number[] = [];
+    for (; this.position < input.length; this.position += this.step) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      out.push(at(i) * (1 - frac) + at(i + 1) * frac);
+    }
+    this.position -= input.length;
+    if (input.length) this.last = input[input.length - 1];
+    return Float32Array.from(out);
+  }
+}
+
+const toFloat32 = ({ header, payload }: AudioFrame) => {
+  switch (header.format) {
+    case AudioSampleFormat.F32LE: return new Float32Array(payload);
+    case AudioSampleFormat.S16LE: return Float32Array.from(new Int16Array(payload), s => s / 32768);
+    default: throw new ProtocolError('invalid_audio', `Audio input must be f32le or s16le, got format ${header.format}`);
+  }
+};
+
+/**
+ * A client's microphone stream: takes its audio frames, resamples them to
+ * STT_SAMPLE_RATE and feeds them to a recognition stream.
+ */
+export class AudioInputSession {
+  private stream: SttStream;
+  private resampler: Resampler;
+  private nextSequence = 0;
+
+  constructor(readonly options: AudioInputOptions, backend: SttBackend, onPartial: (text: string) => void) {
+    this.stream = backend.open(onPartial);
+    this.resampler = new Resampler(options.sampleRate / STT_SAMPLE_RATE);
+  }
+
+  push = (frame: AudioFrame) => {
+    if (frame.payload.byteLength % (frame.header.format === AudioSampleFormat.S16LE ? 2 : 4)) {
+      throw new ProtocolError('invalid_audio', 'Audio input frame ends mid-sample');
+    }
+    const samples = toFloat32(frame);
+    if (frame.header.sequence !== this.nextSequence) {
+      console.warn(`Audio input ${this.options.sessionId}: expected frame ${this.nextSequence}, got ${frame.header.sequence}`);
+    }
+    this.nextSequence = frame.header.sequence + 1;
+    this.stream.push(this.resampler.process(samples));
+  }
+
+  finish = () => this.stream.end();
+  abort = () => this.stream.abort();
+}
@@ -0,0 +1,13 @@
+import { StubSttBackend, type StubSttOptions } from './stub-backend';
+import type { SttBackend } from './types';
+
+export * from './types';
+export { AudioInputSession, type AudioInputOptions } from './audio-input';
+
+export type SttBackendConfig = { backend: 'stub' } & StubSttOptions;
+
+export const createSttBackend = (config: SttBackendConfig): SttBackend => {
+  switch (config.backend) {
+    case 'stub': return new StubSttBackend(config);
+  }
+};
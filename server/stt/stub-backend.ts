@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { STT_SAMPLE_RATE, type SttBackend, type SttStream } from './types';
+
+export interface StubSttOptions {
+  // JSON file holding an array of transcripts
+  fixtureFile?: string;
+  // Audio it takes to "recognize" each word of the partial transcript
+  secondsPerWord: number;
+}
+
+const DEFAULT_TRANSCRIPTS = [
+  'What time is it?',
+  'Tell me a fun fact about octopuses.',
+  'Thanks, that is all for now.',
+];
+
+/**
+ * Recognizer that ignores the audio and returns canned transcripts, for
+ * offline tests. The n-th stream of a server run always gets the n-th
+ * transcript, revealed word by word as audio arrives. A stream that heard no
+ * audio ends with an empty transcript.
+ */
+export class StubSttBackend implements SttBackend {
+  readonly name = 'stub';
+  private transcripts: string[];
+  private streams = 0;
+
+  constructor(private options: StubSttOptions) {
+    this.transcripts = options.fixtureFile
+      ? JSON.parse(readFileSync(options.fixtureFile, 'utf8'))
+      : DEFAULT_TRANSCRIPTS;
+    if (!Array.isArray(this.transcripts) || !this.transcripts.length || this.transcripts.some(t => typeof t !== 'string')) {
+      throw new Error(`Stub STT fixture ${options.fixtureFile} must be a non-empty array of strings`);
+    }
+  }
+
+  start = async () => {};
+  shutdown = async () => {};
+
+  open = (onPartial: (text: string) => void): SttStream => {
+    const words = this.transcripts[this.streams++ % this.transcripts.length].split(/\s+/);
+    const samplesPerWord = Math.max(1, this.options.secondsPerWord * STT_SAMPLE_RATE);
+    let samples = 0;
+    let shown = 0;
+
+    return {
+      push: chunk => {
+        samples += chunk.length;
+        const due = Math.min(words.length, Math.floor(samples / samplesPerWord));
+        if (due > shown) {
+          shown = due;
+          onPartial(words.slice(0, shown).join(' '));
+        }
+      },
+      end: async () => samples ? words.join(' ') : '',
+      abort: () => {},
+    };
+  }
+}
@@ -0,0 +1,21 @@
+// Sample rate every STT backend receives, mono f32
+export const STT_SAMPLE_RATE = 16000;
+
+/**
+ * One utterance being recognized. Audio is pushed as it arrives; partial
+ * transcripts go to the callback given to open(), and end() resolves with the
+ * final transcript once the backend has heard everything.
+ */
+export interface SttStream {
+  push(samples: Float32Array): void;
+  end(): Promise<string>;
+  // Drops the utterance; end() must not be called afterwards
+  abort(): void;
+}
+
+export interface SttBackend {
+  readonly name: string;
+  start(): Promise<void>;
+  open(onPartial: (text: string) => void): SttStream;
+  shutdown(): Promise<void>;
+}
@@ -0,0 +1,103 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolDefinition } from './types';
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates an arithmetic expression: + - * / % ^, parentheses, unary minus,
+ * the functions above and pi/e. A small recursive-descent parser, so no input
+ * ever reaches eval().
+ */
+export const evaluate = (expression: string): number => {
+  const tokens = expression.toLowerCase().match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|[-+*/%^(),]|\S/g) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in ${expression}`);
+  };
+
+  // sum := product (('+' | '-') product)*
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') value = next() === '+' ? value + product() : value - product();
+    return value;
+  };
+
+  // product := unary (('*' | '/' | '%') unary)*
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = unary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  // unary := '-' unary | power
+  const unary = (): number => {
+    if (peek() === '-') { next(); return -unary(); }
+    if (peek() === '+') { next(); return unary(); }
+    return power();
+  };
+
+  // power := atom (('^' | '**') unary)?, right-associative
+  const power = (): number => {
+    const base = atom();
+    if (peek() === '^' || peek() === '**') { next(); return Math.pow(base, unary()); }
+    return base;
+  };
+
+  const atom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    // Own keys only, so tokens like "constructor" stay unknown
+    if (Object.hasOwn(CONSTANTS, token)) return CONSTANTS[token];
+    if (Object.hasOwn(FUNCTIONS, token)) {
+      expect('(');
+      const value = sum();
+      expect(')');
+      return FUNCTIONS[token](value);
+    }
+    throw new Error(`Unexpected "${token}" in ${expression}`);
+  };
+
+  const value = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${peek()}" in ${expression}`);
+  if (!Number.isFinite(value)) throw new Error(`${expression} has no finite value`);
+  return value;
+};
+
+export const calculator: ToolDefinition = {
+  placeholder: 'Let me work that out.',
+  tool: tool({
+    description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log (base 10), exp, pi and e.',
+    inputSchema: z.object({
+      expression: z.string().describe('The expression, e.g. "(3 + 4) * 2 ^ 10"'),
+    }),
+    execute: async ({ expression }) => ({ expression, result: evaluate(expression) }),
+  }),
+};
@@ -0,0 +1,30 @@
+import type { ToolSet } from 'ai';
+import { calculator } from './calculator';
+import { NotesStore, createNoteTools } from './notes';
+import { currentTime } from './time';
+import type { ToolDefinition } from './types';
+import { unitConversion } from './units';
+
+export type { ToolContext, ToolDefinition } from './types';
+
+const tools = new Map<string, ToolDefinition>();
+
+export const registerTool = (name: string, definition: ToolDefinition) => {
+  tools.set(name, definition);
+};
+
+// Everything registered, in the shape streamText takes
+export const toolSet = (): ToolSet => Object.fromEntries([...tools].map(([name, { tool }]) => [name, tool]));
+
+export const toolPlaceholder = (name: string) => tools.get(name)?.placeholder ?? 'One moment.';
+
+export const toolNames = () => [...tools.keys()];
+
+export const registerBuiltinTools = (options: { notesFile: string }) => {
+  registerTool('current_time', currentTime);
+  registerTool('calculator', calculator);
+  registerTool('convert_units', unitConversion);
+  for (const [name, definition] of Object.entries(createNoteTools(new NotesStore(options.notesFile)))) {
+    registerTool(name, definition);
+  }
+};
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NotesStore, createNoteTools } from './notes';
+import type { ToolContext } from './types';
+
+const tempFile = () => join(mkdtempSync(join(tmpdir(), 'notes-')), 'notes.json');
+
+// Runs a tool the way streamText would for this owner
+const call = (tools: ReturnType<typeof createNoteTools>, name: string, input: unknown, owner: string) =>
+  tools[name].tool.execute!(input, { toolCallId: name, messages: [], experimental_context: { owner } satisfies ToolContext });
+
+describe('note tools', () => {
+  test('keep each owner\'s notes apart', async () => {
+    const tools = createNoteTools(new NotesStore(tempFile()));
+    await call(tools, 'save_note', { text: 'alice secret' }, 'alice');
+    await call(tools, 'save_note', { text: 'bob secret' }, 'bob');
+
+    expect(await call(tools, 'list_notes', {}, 'alice')).toMatchObject({ notes: [{ id: 1, text: 'alice secret' }] });
+    expect(await call(tools, 'list_notes', {}, 'bob')).toMatchObject({ notes: [{ id: 1, text: 'bob secret' }] });
+    expect(await call(tools, 'list_notes', {}, '')).toEqual({ notes: [] });
+  });
+
+  test('delete only the caller\'s notes', async () => {
+    const file = tempFile();
+    const tools = createNoteTools(new NotesStore(file));
+    await call(tools, 'save_note', { text: 'alice secret' }, 'alice');
+
+    await expect(call(tools, 'delete_note', { id: 1 }, 'bob')).rejects.toThrow('No note with id 1');
+    expect(new NotesStore(file).list('alice')).toHaveLength(1);
+  });
+});
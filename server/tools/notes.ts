@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { toolContext, type ToolDefinition } from './types';
+
+export interface Note {
+  id: number;
+  text: string;
+  createdAt: string;
+}
+
+/**
+ * Notes kept in a JSON file, each owner's apart: with auth on, an owner is an
+ * API key, otherwise everyone is the same owner ''.
+ */
+export class NotesStore {
+  private notes: Record<string, Note[]>;
+
+  constructor(private file: string) {
+    const saved = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+    // Files from before notes had owners hold one list, everyone's
+    this.notes = Array.isArray(saved) ? { '': saved } : saved;
+  }
+
+  add = (owner: string, text: string): Note => {
+    const notes = this.notes[owner] ??= [];
+    const note = { id: (notes.at(-1)?.id ?? 0) + 1, text, createdAt: new Date().toISOString() };
+    notes.push(note);
+    this.save();
+    return note;
+  }
+
+  list = (owner: string) => [...this.notes[owner] ?? []];
+
+  remove = (owner: string, id: number) => {
+    const notes = this.notes[owner] ?? [];
+    if (!notes.some(note => note.id === id)) return false;
+    this.notes[owner] = notes.filter(note => note.id !== id);
+    this.save();
+    return true;
+  }
+
+  private save = () => {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(this.notes, null, 2));
+  }
+}
+
+export const createNoteTools = (store: NotesStore): Record<string, ToolDefinition> => ({
+  save_note: {
+    placeholder: 'Saving that note.',
+    tool: tool({
+      description: 'Save a short note for the user to recall later.',
+      inputSchema: z.object({ text: z.string().min(1) }),
+      execute: async ({ text }, options) => store.add(toolContext(options).owner, text),
+    }),
+  },
+  list_notes: {
+    placeholder: 'Let me look at your notes.',
+    tool: tool({
+      description: 'List all saved notes, oldest first.',
+      inputSchema: z.object({}),
+      execute: async (_, options) => ({ notes: store.list(toolContext(options).owner) }),
+    }),
+  },
+  delete_note: {
+    placeholder: 'Deleting that note.',
+    tool: tool({
+      description: 'Delete a saved note by its id.',
+      inputSchema: z.object({ id: z.number().int() }),
+      execute: async ({ id }, options) => {
+        if (!store.remove(toolContext(options).owner, id)) throw new Error(`No note with id ${id}`);
+        return { deleted: id };
+      },
+    }),
+  },
+});
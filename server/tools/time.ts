@@ -0,0 +1,20 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolDefinition } from './types';
+
+export const currentTime: ToolDefinition = {
+  placeholder: 'Let me check the time.',
+  tool: tool({
+    description: 'Get the current date and time, optionally in a given IANA time zone.',
+    inputSchema: z.object({
+      timeZone: z.string().optional().describe('IANA time zone, e.g. "Europe/Paris"; defaults to the server\'s'),
+    }),
+    execute: async ({ timeZone }) => {
+      const now = new Date();
+      const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+      // Throws a RangeError for unknown zones, which becomes a tool error
+      const local = now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' });
+      return { iso: now.toISOString(), timeZone: zone, local };
+    },
+  }),
+};
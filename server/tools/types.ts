@@ -0,0 +1,15 @@
+import type { Tool } from 'ai';
+
+export interface ToolDefinition {
+  tool: Tool;
+  // Said while the tool runs, so the voice doesn't go silent
+  placeholder: string;
+}
+
+// What streamText hands every tool call as experimental_context
+export interface ToolContext {
+  // Whose data the tool may touch: the caller's API key name, '' without auth
+  owner: string;
+}
+
+export const toolContext = (options: { experimental_context?: unknown }) => options.experimental_context as ToolContext;
@@ -0,0 +1,93 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolDefinition } from './types';
+
+type Dimension = 'length' | 'mass' | 'volume' | 'speed' | 'time' | 'data';
+
+// Factor to the dimension's base unit (metre, kilogram, litre, m/s, second, byte)
+const UNITS: Record<string, { dimension: Dimension; factor: number }> = {};
+
+const define = (dimension: Dimension, factor: number, ...names: string[]) =>
+  names.forEach(name => { UNITS[name] = { dimension, factor }; });
+
+define('length', 1, 'm', 'meter', 'meters', 'metre', 'metres');
+define('length', 1000, 'km', 'kilometer', 'kilometers', 'kilometre', 'kilometres');
+define('length', 0.01, 'cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres');
+define('length', 0.001, 'mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres');
+define('length', 1609.344, 'mi', 'mile', 'miles');
+define('length', 0.9144, 'yd', 'yard', 'yards');
+define('length', 0.3048, 'ft', 'foot', 'feet');
+define('length', 0.0254, 'in', 'inch', 'inches');
+define('mass', 1, 'kg', 'kilogram', 'kilograms');
+define('mass', 0.001, 'g', 'gram', 'grams');
+define('mass', 1e-6, 'mg', 'milligram', 'milligrams');
+define('mass', 0.45359237, 'lb', 'lbs', 'pound', 'pounds');
+define('mass', 0.028349523125, 'oz', 'ounce', 'ounces');
+define('mass', 6.35029318, 'st', 'stone', 'stones');
+define('volume', 1, 'l', 'liter', 'liters', 'litre', 'litres');
+define('volume', 0.001, 'ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres');
+define('volume', 3.785411784, 'gal', 'gallon', 'gallons');
+define('volume', 0.946352946, 'qt', 'quart', 'quarts');
+define('volume', 0.473176473, 'pt', 'pint', 'pints');
+define('volume', 0.2365882365, 'cup', 'cups');
+define('volume', 0.0295735295625, 'floz', 'fl oz', 'fluid ounce', 'fluid ounces');
+define('speed', 1, 'm/s', 'mps');
+define('speed', 1000 / 3600, 'km/h', 'kph', 'kmh');
+define('speed', 1609.344 / 3600, 'mph');
+define('speed', 1852 / 3600, 'kn', 'knot', 'knots');
+define('time', 1, 's', 'sec', 'second', 'seconds');
+define('time', 60, 'min', 'minute', 'minutes');
+define('time', 3600, 'h', 'hr', 'hour', 'hours');
+define('time', 86400, 'd', 'day', 'days');
+define('time', 604800, 'wk', 'week', 'weeks');
+define('data', 1, 'b', 'byte', 'bytes');
+define('data', 1e3, 'kb', 'kilobyte', 'kilobytes');
+define('data', 1e6, 'mb', 'megabyte', 'megabytes');
+define('data', 1e9, 'gb', 'gigabyte', 'gigabytes');
+define('data', 1e12, 'tb', 'terabyte', 'terabytes');
+
+// Temperatures aren't proportional, so they convert through Celsius
+const TEMPERATURES: Record<string, { toC: (v: number) => number; fromC: (v: number) => number }> = {};
+const temperature = (toC: (v: number) => number, fromC: (v: number) => number, ...names: string[]) =>
+  names.forEach(name => { TEMPERATURES[name] = { toC, fromC }; });
+
+temperature(v => v, v => v, 'c', '°c', 'celsius');
+temperature(v => (v - 32) * 5 / 9, v => v * 9 / 5 + 32, 'f', '°f', 'fahrenheit');
+temperature(v => v - 273.15, v => v + 273.15, 'k', 'kelvin');
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const source = from.trim().toLowerCase();
+  const target = to.trim().toLowerCase();
+
+  // Own keys only, so names like "constructor" aren't units
+  const isTemperature = (name: string) => Object.hasOwn(TEMPERATURES, name);
+  if (isTemperature(source) || isTemperature(target)) {
+    if (!isTemperature(source) || !isTemperature(target)) throw new Error(`Can't convert ${from} to ${to}`);
+    return TEMPERATURES[target].fromC(TEMPERATURES[source].toC(value));
+  }
+
+  const a = Object.hasOwn(UNITS, source) ? UNITS[source] : undefined;
+  const b = Object.hasOwn(UNITS, target) ? UNITS[target] : undefined;
+  if (!a) throw new Error(`Unknown unit "${from}"`);
+  if (!b) throw new Error(`Unknown unit "${to}"`);
+  if (a.dimension !== b.dimension) throw new Error(`Can't convert ${a.dimension} (${from}) to ${b.dimension} (${to})`);
+  return value * a.factor / b.factor;
+};
+
+export const unitConversion: ToolDefinition = {
+  placeholder: 'One moment, converting that.',
+  tool: tool({
+    description: 'Convert a value between units of length, mass, volume, speed, time, data size or temperature.',
+    inputSchema: z.object({
+      value: z.number(),
+      from: z.string().describe('Unit to convert from, e.g. "mi", "lb", "F"'),
+      to: z.string().describe('Unit to convert to, e.g. "km", "kg", "C"'),
+    }),
+    execute: async ({ value, from, to }) => ({
+      value,
+      from,
+      to,
+      result: Number(convertUnits(value, from, to).toPrecision(10)),
+    }),
+  }),
+};
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { SpeechNormalizer } from './speech';
+import { TtsPool, type TtsBackend } from './tts';
+import { SyntheticTtsBackend } from './tts/synthetic-backend';
+import { TtsDispatcher } from './tts-dispatcher';
+import { TTSQueue, type Utterance } from './tts-queue';
+
+const pools: TtsPool[] = [];
+afterEach(async () => { await Promise.all(pools.splice(0).map(pool => pool.shutdown())); });
+
+const setup = async ({ size = 1, congested = new Set<string>() } = {}) => {
+  const pool = new TtsPool(() => new SyntheticTtsBackend({ realtimeFactor: 0 }), {
+    size, healthCheckMs: 60_000, timeoutMs: 1000, stallMs: 1000,
+  });
+  pools.push(pool);
+  await pool.start();
+  const spoken: string[] = [];
+  const speak = async ({ clientId, text }: Utterance, backend: TtsBackend) => {
+    for await (const _ of backend.synthesize(text)) { /* drain */ }
+    spoken.push(`${clientId}: ${text}`);
+  };
+  const queue = new TTSQueue(
+    { minChars: 20, maxChars: 200, firstPhraseMinChars: 10, idleFlushMs: 400 },
+    new SpeechNormalizer({ language: 'en', urls: 'replace', code: 'replace', disabledRules: [] }),
+    () => dispatcher.pump(),
+  );
+  const dispatcher: TtsDispatcher = new TtsDispatcher(queue, pool, speak, id => congested.has(id));
+  const settled = async () => {
+    while (!queue.isEmpty() || dispatcher.isBusy()) await Bun.sleep(5);
+  };
+  return { pool, queue, dispatcher, spoken, settled };
+};
+
+describe('TtsDispatcher', () => {
+  test('takes turns between clients', async () => {
+    const { queue, spoken, settled } = await setup();
+    queue.say('a', 'One');
+    queue.say('a', 'Two');
+    queue.say('a', 'Three');
+    queue.say('b', 'Hello');
+    await settled();
+    expect(spoken).toEqual(['a: One', 'b: Hello', 'a: Two', 'a: Three']);
+  });
+
+  test('keeps one utterance per client in flight, in order', async () => {
+    const { pool, queue, dispatcher, spoken, settled } = await setup({ size: 3 });
+    queue.say('a', 'One');
+    queue.say('a', 'Two');
+    expect(dispatcher.inFlightUtterances()).toHaveLength(1);
+    expect(pool.stats().busy).toBe(1);
+    await settled();
+    expect(spoken).toEqual(['a: One', 'a: Two']);
+  });
+
+  test('skips congested clients until they drain', async () => {
+    const congested = new Set(['a']);
+    const { queue, dispatcher, spoken, settled } = await setup({ congested });
+    queue.say('a', 'One');
+    queue.say('b', 'Hello');
+    await Bun.sleep(50);
+    expect(spoken).toEqual(['b: Hello']);
+    congested.clear();
+    dispatcher.pump();
+    await settled();
+    expect(spoken).toEqual(['b: Hello', 'a: One']);
+  });
+
+  test('runs background synthesis after live speech', async () => {
+    const { queue, dispatcher, spoken } = await setup();
+    queue.say('a', 'One');
+    queue.say('a', 'Two');
+    const chunks: Buffer[] = [];
+    for await (const pcm of dispatcher.synthesize('A preview')) {
+      // Live speech went first, and the worker is booked for this
+      expect(spoken).toEqual(['a: One', 'a: Two']);
+      chunks.push(pcm);
+    }
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(dispatcher.isBusy()).toBe(false);
+  });
+
+  test('fails background synthesis when TTS is down', async () => {
+    const { pool, dispatcher } = await setup();
+    await pool.shutdown();
+    const stream = dispatcher.synthesize('A preview')[Symbol.asyncIterator]();
+    await expect(stream.next()).rejects.toThrow('TTS stopped');
+  });
+});
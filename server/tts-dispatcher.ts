@@ -0,0 +1,122 @@
+import { PcmChannel } from './tts/pcm-channel';
+import type { TtsBackend, TtsPool, TtsWorker } from './tts';
+import type { TTSQueue, Utterance } from './tts-queue';
+
+export interface InFlightUtterance {
+  utterance: Utterance;
+  startedAt: number;
+  worker: number;
+}
+
+// One-off synthesis outside conversations, such as voice previews
+interface BackgroundJob {
+  text: string;
+  voice?: string;
+  channel: PcmChannel;
+}
+
+// Stands in for a client in the books of background jobs
+const BACKGROUND = '(background)';
+
+/**
+ * Feeds queued utterances to the TTS pool, one per worker at a time. A worker
+ * gets its next phrase only when the previous one's audio stream has ended,
+ * so queued work stays here where it can be cancelled and counted.
+ *
+ * Scheduling is fair across clients: the free worker goes to the client served
+ * least recently, and each client has at most one utterance in flight, which
+ * also keeps its audio in order. A client stays on the worker it last used
+ * when that one is free, so its voice carries over between phrases. Clients
+ * whose sockets are backed up are skipped until they drain; call pump()
+ * whenever any of this may have changed. Background jobs only get a worker
+ * no waiting client wants.
+ */
+export class TtsDispatcher {
+  private inFlight = new Map<number, InFlightUtterance>();
+  // Worker each client last spoke on
+  private affinity = new Map<string, number>();
+  // When each client was last served, as a running count
+  private lastServed = new Map<string, number>();
+  private served = 0;
+  private background: BackgroundJob[] = [];
+
+  constructor(
+    private queue: TTSQueue,
+    private pool: TtsPool,
+    private speak: (utterance: Utterance, backend: TtsBackend) => Promise<void>,
+    private isCongested: (clientId: string) => boolean,
+  ) {}
+
+  pump = () => {
+    for (;;) {
+      const idle = this.pool.idle().filter(w => !this.inFlight.has(w.index));
+      if (!idle.length) return;
+
+      const speaking = new Set([...this.inFlight.values()].map(f => f.utterance.clientId));
+      // Stable sort, so clients never served keep their queue order
+      const waiting = this.queue.waitingClients()
+        .filter(id => !speaking.has(id) && !this.isCongested(id))
+        .sort((a, b) => (this.lastServed.get(a) ?? 0) - (this.lastServed.get(b) ?? 0));
+      if (!waiting.length) {
+        const job = this.background.shift();
+        if (!job) return;
+        this.startBackground(job, idle[0]);
+        continue;
+      }
+
+      const clientId = waiting[0];
+      // Its own worker if free, else one no other waiting client calls its own
+      const claimed = new Set(waiting.slice(1).map(id => this.affinity.get(id)));
+      const worker = idle.find(w => w.index === this.affinity.get(clientId))
+        ?? idle.find(w => !claimed.has(w.index))
+        ?? idle[0];
+      const utterance = this.queue.takeNext(u => u.clientId === clientId);
+      if (!utterance) return;
+      this.start(utterance, worker);
+    }
+  }
+
+  // Synthesizes text once a worker is free, after live speech
+  synthesize = (text: string, voice?: string): AsyncIterable<Buffer> => {
+    const channel = new PcmChannel();
+    const { status } = this.pool.health();
+    if (status === 'failed' || status === 'stopped') {
+      channel.close(new Error(`TTS ${status}`));
+      return channel;
+    }
+    this.background.push({ text, voice, channel });
+    this.pump();
+    return channel;
+  }
+
+  // Forgets a client that left
+  forget = (clientId: string) => {
+    this.affinity.delete(clientId);
+    this.lastServed.delete(clientId);
+  }
+
+  inFlightUtterances = () => [...this.inFlight.values()];
+  isBusy = () => this.inFlight.size > 0;
+
+  private start = (utterance: Utterance, worker: TtsWorker) => {
+    this.affinity.set(utterance.clientId, worker.index);
+    this.lastServed.set(utterance.clientId, ++this.served);
+    console.log(`TTS (${utterance.clientId}, worker ${worker.index}): "${utterance.text}"`);
+    this.run(utterance, worker, backend => this.speak(utterance, backend))
+      .catch(e => console.error('TTS dispatch failed:', e));
+  }
+
+  private startBackground = ({ text, voice, channel }: BackgroundJob, worker: TtsWorker) => {
+    this.run({ clientId: BACKGROUND, text }, worker, async backend => {
+      for await (const pcm of backend.synthesize(text, voice)) channel.push(pcm);
+    }).then(() => channel.close(), e => channel.close(e));
+  }
+
+  private run = (utterance: Utterance, worker: TtsWorker, task: (backend: TtsBackend) => Promise<void>) => {
+    this.inFlight.set(worker.index, { utterance, startedAt: Date.now(), worker: worker.index });
+    return this.pool.run(worker, task).finally(() => {
+      this.inFlight.delete(worker.index);
+      this.pump();
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { PhraseSegmenter, type SegmenterOptions } from './phrase-segmenter';
+import type { CodeFenceFilter, SpeechNormalizer } from './speech';
+
+export type Utterance = { clientId: string; text: string };
+
+export interface TTSQueueOptions extends SegmenterOptions {
+  // Fallback for stalled streams: hand over buffered words after this much silence
+  idleFlushMs: number;
+}
+
+// Per-client state for turning a reply's text stream into phrases
+type PhraseStream = { codeFilter: CodeFenceFilter; segmenter: PhraseSegmenter };
+
+export class TTSQueue {
+  private queue: Utterance[] = [];
+  private streams = new Map<string, PhraseStream>();
+  private timeouts = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private options: TTSQueueOptions,
+    private normalizer: SpeechNormalizer,
+    // Called whenever new utterances are ready to be spoken
+    private onEnqueue: () => void = () => {},
+  ) {}
+  
+  add = (clientId: string, text: string) => {
+    const { codeFilter, segmenter } = this.stream(clientId);
+    this.enqueue(clientId, segmenter.push(codeFilter.push(text)));
+    clearTimeout(this.timeouts.get(clientId));
+    this.timeouts.set(clientId, setTimeout(() => {
+      this.enqueue(clientId, this.stream(clientId).segmenter.flushIdle());
+    }, this.options.idleFlushMs));
+  }
+  
+  // End of the text stream: speak whatever is left
+  flush = (clientId: string) => {
+    const stream = this.streams.get(clientId);
+    if (stream) {
+      stream.segmenter.push(stream.codeFilter.end());
+      this.enqueue(clientId, stream.segmenter.end());
+    }
+    clearTimeout(this.timeouts.get(clientId));
+    this.timeouts.delete(clientId);
+  }
+  
+  // Speaks text as its own utterance, right after what the reply has buffered so far
+  say = (clientId: string, text: string) => {
+    const stream = this.streams.get(clientId);
+    if (stream) this.enqueue(clientId, stream.segmenter.end());
+    this.enqueue(clientId, [text]);
+  }
+
+  // The phrases a whole reply would be spoken as, for replying it again later
+  phrasesOf = (text: string): string[] => {
+    const codeFilter = this.normalizer.createCodeFilter();
+    const segmenter = new PhraseSegmenter(this.options);
+    const phrases = [...segmenter.push(codeFilter.push(text)), ...segmenter.push(codeFilter.end()), ...segmenter.end()];
+    return this.speakable(phrases);
+  }
+
+  // Removes and returns the oldest utterance that passes `filter`
+  takeNext = (filter: (u: Utterance) => boolean = () => true) => {
+    const index = this.queue.findIndex(filter);
+    return index < 0 ? null : this.queue.splice(index, 1)[0];
+  }
+  // Clients with utterances waiting, in the order of their oldest one
+  waitingClients = () => [...new Set(this.queue.map(u => u.clientId))];
+  isEmpty = () => !this.queue.length;
+  size = () => this.queue.length;
+  // Drops everything for a client; its next text starts a fresh turn
+  clear = (clientId: string) => { 
+    this.streams.delete(clientId);
+    clearTimeout(this.timeouts.get(clientId));
+    this.timeouts.delete(clientId);
+    this.queue = this.queue.filter(u => u.clientId !== clientId);
+  }
+
+  private stream = (clientId: string) => {
+    let stream = this.streams.get(clientId);
+    if (!stream) {
+      stream = { codeFilter: this.normalizer.createCodeFilter(), segmenter: new PhraseSegmenter(this.options) };
+      this.streams.set(clientId, stream);
+    }
+    return stream;
+  }
+
+  private speakable = (phrases: string[]) => phrases.map(this.normalizer.normalize).filter(text => /\w/.test(text));
+
+  private enqueue = (clientId: string, phrases: string[]) => {
+    const utterances = this.speakable(phrases).map(text => ({ clientId, text }));
+    if (!utterances.length) return;
+    this.queue.push(...utterances);
+    this.onEnqueue();
+  }
+}
@@ -0,0 +1,23 @@
+import { MlxTtsBackend, type MlxBackendOptions } from './mlx-backend';
+import { SyntheticTtsBackend, type SyntheticBackendOptions } from './synthetic-backend';
+import type { TtsBackend } from './types';
+
+export * from './types';
+export { VoiceCatalog, type Voice } from './voices';
+export { TtsPool, type TtsPoolOptions, type TtsPoolStats, type TtsWorker } from './pool';
+
+export type TtsBackendConfig =
+  | ({ backend: 'mlx' } & Omit<MlxBackendOptions, 'onFatal'>)
+  | ({ backend: 'synthetic' } & SyntheticBackendOptions);
+
+export interface TtsBackendHooks {
+  // Called once the backend has given up restarting and will not recover
+  onFatal?: () => void;
+}
+
+export const createTtsBackend = (config: TtsBackendConfig, hooks: TtsBackendHooks = {}): TtsBackend => {
+  switch (config.backend) {
+    case 'mlx': return new MlxTtsBackend({ ...config, ...hooks });
+    case 'synthetic': return new SyntheticTtsBackend(config);
+  }
+};
@@ -0,0 +1,182 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { PcmChannel } from './pcm-channel';
+import type { HealthCheckOptions, TtsBackend, TtsHealth, TtsStatus } from './types';
+import { TtsWorkerClient, type WorkerEvent } from './worker-client';
+
+export interface MlxBackendOptions {
+  script: string;
+  quantize?: number;
+  voice?: string;
+  maxRestarts?: number;
+  onFatal?: () => void;
+}
+
+/**
+ * Kyutai TTS through scripts/tts_mlx_streaming.py in jsonl mode. Each
+ * utterance is a request with its own id; the worker tags audio with that id,
+ * says when the utterance is done, and can abandon it on cancel.
+ */
+export class MlxTtsBackend implements TtsBackend {
+  readonly name = 'mlx';
+  private proc: ChildProcess | null = null;
+  private worker: TtsWorkerClient | null = null;
+  private pending = new Map<string, PcmChannel>();
+  // Resolvers for pings awaiting their pong, by ping id
+  private pings = new Map<string, () => void>();
+  // Last time the worker sent anything, or was handed work while idle
+  private lastActivity = Date.now();
+  private nextId = 0;
+  private status: TtsStatus = 'stopped';
+  private restarts = 0;
+  private stopping = false;
+
+  constructor(private options: MlxBackendOptions) {}
+
+  start = async () => {
+    this.stopping = false;
+    this.spawn();
+  }
+
+  synthesize = (text: string, voice?: string, signal?: AbortSignal): AsyncIterable<Buffer> => {
+    const channel = new PcmChannel();
+    if (signal?.aborted) {
+      channel.close();
+      return channel;
+    }
+    if (!this.worker || this.status === 'failed') {
+      channel.close(new Error(`TTS ${this.status}`));
+      return channel;
+    }
+
+    const id = `u${++this.nextId}`;
+    const worker = this.worker;
+    try {
+      if (!this.pending.size) this.lastActivity = Date.now();
+      worker.synthesize({ id, text, voice: voice ?? this.options.voice });
+      this.pending.set(id, channel);
+    } catch (e) {
+      console.error('TTS write failed:', e);
+      channel.close(e as Error);
+      this.restart();
+      return channel;
+    }
+    // The stream ends on the worker's utterance_done for this id
+    signal?.addEventListener('abort', () => {
+      channel.discard();
+      try { worker.cancel(id); } catch { /* worker is gone, pending was failed */ }
+    }, { once: true });
+    return channel;
+  }
+
+  shutdown = async () => {
+    this.stopping = true;
+    this.proc?.kill('SIGTERM');
+    this.proc = null;
+    this.worker = null;
+    this.failPending('TTS shut down');
+    this.status = 'stopped';
+  }
+
+  health = (): TtsHealth => ({ status: this.status, restarts: this.restarts });
+
+  check = async ({ timeoutMs, stallMs }: HealthCheckOptions) => {
+    const worker = this.worker;
+    // Starting can take minutes while the model loads; restarts are underway
+    if (this.status !== 'ready' || !worker) return this.status !== 'failed';
+
+    const id = `p${++this.nextId}`;
+    const answered = await new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => {
+        this.pings.delete(id);
+        resolve(false);
+      }, timeoutMs);
+      this.pings.set(id, () => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+      try { worker.ping(id); } catch { /* times out like a hung worker */ }
+    });
+    const idleFor = Date.now() - this.lastActivity;
+    const stalled = this.pending.size > 0 && idleFor > stallMs;
+    if (answered && !stalled) return true;
+    // Still the same process? It may have been restarted meanwhile
+    if (worker !== this.worker) return false;
+
+    console.error(answered ? `TTS worker stuck for ${idleFor}ms, restarting` : `TTS worker missed a ping, restarting`);
+    this.proc?.kill('SIGKILL');
+    return false;
+  }
+
+  private spawn = () => {
+    console.log('Starting TTS process...');
+    const { script, quantize, voice } = this.options;
+    const args = ['run', script, 'jsonl'];
+    if (quantize) args.push('--quantize', String(quantize));
+    if (voice) args.push('--voice', voice);
+
+    const proc = spawn('uv', args, { stdio: ['pipe', 'pipe', 'pipe'], cwd: process.cwd() });
+    this.proc = proc;
+    this.worker = new TtsWorkerClient(proc, this.onWorkerEvent);
+    this.status = 'starting';
+
+    proc.stderr?.on('data', data => console.log(`TTS Log: ${data}`));
+    // Only the current process; a replaced one may still report its exit
+    proc.on('error', err => { console.error('TTS Error:', err); if (proc === this.proc) this.restart(); });
+    proc.on('exit', (code, signal) => (code || signal) && proc === this.proc && this.restart());
+  }
+
+  private onWorkerEvent = (event: WorkerEvent) => {
+    this.lastActivity = Date.now();
+    switch (event.type) {
+      case 'ready':
+        this.status = 'ready';
+        break;
+      case 'audio':
+        this.pending.get(event.id)?.push(event.pcm);
+        break;
+      case 'utterance_done':
+        this.pending.get(event.id)?.close();
+        this.pending.delete(event.id);
+        break;
+      case 'error':
+        console.error(`TTS worker error${event.id ? ` (${event.id})` : ''}: ${event.message}`);
+        if (event.id) {
+          this.pending.get(event.id)?.close(new Error(event.message));
+          this.pending.delete(event.id);
+        }
+        break;
+      case 'pong':
+        this.pings.get(event.id)?.();
+        this.pings.delete(event.id);
+        break;
+      case 'corrupt':
+        // Like a stuck worker: the exit restarts it and fails what's pending
+        console.error(`${event.message}, restarting`);
+        this.proc?.kill('SIGKILL');
+        break;
+    }
+  }
+
+  private restart = () => {
+    if (this.stopping) return;
+    this.proc = null;
+    this.worker = null;
+    this.failPending('TTS process restarted');
+    const maxRestarts = this.options.maxRestarts ?? 5;
+    if (this.restarts++ < maxRestarts) {
+      console.log(`Restarting TTS (${this.restarts}/${maxRestarts})...`);
+      this.status = 'restarting';
+      setTimeout(this.spawn, 1000);
+    } else {
+      console.error('TTS crashed too many times');
+      this.status = 'failed';
+      this.proc = null;
+      this.options.onFatal?.();
+    }
+  }
+
+  private failPending = (reason: string) => {
+    this.pending.forEach(channel => channel.close(new Error(reason)));
+    this.pending.clear();
+  }
+}
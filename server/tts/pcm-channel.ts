@@ -0,0 +1,44 @@
+// Push-to-pull bridge: producers push PCM chunks, one consumer iterates them
+export class PcmChannel implements AsyncIterable<Buffer> {
+  private chunks: Buffer[] = [];
+  private closed = false;
+  private discarding = false;
+  private error: Error | null = null;
+  private wake: (() => void) | null = null;
+
+  push = (chunk: Buffer) => {
+    if (this.closed || this.discarding) return;
+    this.chunks.push(chunk);
+    this.notify();
+  }
+
+  close = (error?: Error) => {
+    if (this.closed) return;
+    this.closed = true;
+    this.error = error ?? null;
+    this.notify();
+  }
+
+  // Drop buffered and future chunks, but stay open until the producer closes
+  discard = () => {
+    this.discarding = true;
+    this.chunks = [];
+  }
+
+  isClosed = () => this.closed;
+  isDiscarding = () => this.discarding;
+
+  private notify = () => {
+    this.wake?.();
+    this.wake = null;
+  }
+
+  async *[Symbol.asyncIterator]() {
+    while (true) {
+      while (this.chunks.length) yield this.chunks.shift()!;
+      if (this.closed) break;
+      await new Promise<void>(r => { this.wake = r; });
+    }
+    if (this.error) throw this.error;
+  }
+}
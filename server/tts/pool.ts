@@ -0,0 +1,195 @@
+import type { TtsBackendHooks } from './index';
+import type { HealthCheckOptions, TtsBackend, TtsHealth, TtsStatus } from './types';
+
+export interface TtsPoolOptions extends HealthCheckOptions {
+  size: number;
+  healthCheckMs: number;
+  // Called once every worker has given up restarting
+  onFatal?: () => void;
+  // Called when a worker may have become free to take an utterance
+  onAvailable?: () => void;
+}
+
+export interface TtsWorker {
+  readonly index: number;
+  readonly backend: TtsBackend;
+}
+
+export interface TtsWorkerStats {
+  index: number;
+  status: TtsStatus;
+  busy: boolean;
+  // Share of the last minute spent synthesizing, 0 to 1
+  utilization: number;
+  utterances: number;
+  restarts: number;
+  failedChecks: number;
+}
+
+export interface TtsPoolStats {
+  size: number;
+  ready: number;
+  busy: number;
+  utilization: number;
+  workers: TtsWorkerStats[];
+}
+
+type PoolWorker = TtsWorker & {
+  busySince: number | null;
+  // Time spent busy, not counting the utterance in progress
+  busyMs: number;
+  utterances: number;
+  failedChecks: number;
+  // Busy time at each sample tick, for the utilization window
+  samples: number[];
+  // Status and restart count at the last sample tick
+  status: TtsStatus;
+  restarts: number;
+};
+
+const SAMPLE_MS = 1000;
+const WINDOW_SAMPLES = 60;
+
+/**
+ * A fixed set of TTS workers, each a backend with its own process, health
+ * checks and restarts. Which utterance goes to which worker is up to the
+ * caller (see TtsDispatcher), which also queues one-off synthesis outside
+ * conversations; run() keeps the books on how busy each one is.
+ */
+export class TtsPool {
+  readonly name: string;
+  readonly workers: readonly TtsWorker[];
+  private pool: PoolWorker[];
+  private failed = 0;
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private windowStart: number[] = [];
+  // When workers restarted, as noticed by the sample tick
+  private restartTimes: number[] = [];
+
+  constructor(create: (hooks: TtsBackendHooks) => TtsBackend, private options: TtsPoolOptions) {
+    this.pool = Array.from({ length: Math.max(1, options.size) }, (_, index) => ({
+      index,
+      backend: create({ onFatal: this.onWorkerFatal }),
+      busySince: null,
+      busyMs: 0,
+      utterances: 0,
+      failedChecks: 0,
+      samples: [],
+      status: 'stopped' as TtsStatus,
+      restarts: 0,
+    }));
+    this.workers = this.pool;
+    this.name = this.pool.length > 1 ? `${this.pool[0].backend.name} x${this.pool.length}` : this.pool[0].backend.name;
+  }
+
+  start = async () => {
+    await Promise.all(this.pool.map(w => w.backend.start()));
+    this.timers = [
+      setInterval(this.sample, SAMPLE_MS),
+      setInterval(this.checkHealth, this.options.healthCheckMs),
+    ];
+  }
+
+  shutdown = async () => {
+    this.timers.forEach(clearInterval);
+    await Promise.all(this.pool.map(w => w.backend.shutdown()));
+  }
+
+  // Workers that are up and not speaking
+  idle = (): TtsWorker[] => this.pool.filter(w => w.busySince === null && w.backend.health().status === 'ready');
+
+  // Speaks one utterance on a worker, accounting its busy time
+  run = async (worker: TtsWorker, task: (backend: TtsBackend) => Promise<void>) => {
+    const w = this.pool[worker.index];
+    w.busySince = Date.now();
+    try {
+      await task(w.backend);
+    } finally {
+      w.busyMs += Date.now() - w.busySince;
+      w.busySince = null;
+      w.utterances++;
+    }
+  }
+
+  health = (): TtsHealth => {
+    const workers = this.pool.map(w => w.backend.health());
+    const ready = workers.filter(h => h.status === 'ready').length;
+    // The pool is as good as its best worker
+    const order: TtsStatus[] = ['ready', 'starting', 'restarting', 'stopped', 'failed'];
+    const status = order.find(s => workers.some(h => h.status === s)) ?? 'stopped';
+    return {
+      status,
+      restarts: workers.reduce((sum, h) => sum + h.restarts, 0),
+      detail: `${ready}/${workers.length} workers ready`,
+    };
+  }
+
+  check = async (options: HealthCheckOptions) => {
+    const results = await Promise.all(this.pool.map(w => w.backend.check(options)));
+    return results.every(Boolean);
+  }
+
+  stats = (): TtsPoolStats => {
+    const now = Date.now();
+    const workers = this.pool.map((w): TtsWorkerStats => {
+      const busyNow = w.busyMs + (w.busySince === null ? 0 : now - w.busySince);
+      const since = this.windowStart[0] ?? now;
+      const elapsed = now - since;
+      return {
+        index: w.index,
+        status: w.backend.health().status,
+        busy: w.busySince !== null,
+        utilization: elapsed > 0 ? Math.min(1, (busyNow - (w.samples[0] ?? 0)) / elapsed) : 0,
+        utterances: w.utterances,
+        restarts: w.backend.health().restarts,
+        failedChecks: w.failedChecks,
+      };
+    });
+    return {
+      size: workers.length,
+      ready: workers.filter(w => w.status === 'ready').length,
+      busy: workers.filter(w => w.busy).length,
+      utilization: workers.reduce((sum, w) => sum + w.utilization, 0) / workers.length,
+      workers,
+    };
+  }
+
+  // Restarts across all workers in the last `ms`
+  restartsWithin = (ms: number) => {
+    const since = Date.now() - ms;
+    return this.restartTimes.filter(at => at > since).length;
+  }
+
+  // Records busy time for the utilization window, and notices workers that
+  // came (back) up or restarted
+  private sample = () => {
+    const now = Date.now();
+    this.windowStart.push(now);
+    if (this.windowStart.length > WINDOW_SAMPLES) this.windowStart.shift();
+
+    let available = false;
+    for (const w of this.pool) {
+      w.samples.push(w.busyMs + (w.busySince === null ? 0 : now - w.busySince));
+      if (w.samples.length > WINDOW_SAMPLES) w.samples.shift();
+      const { status, restarts } = w.backend.health();
+      if (status === 'ready' && w.status !== 'ready') available = true;
+      w.status = status;
+      for (; w.restarts < restarts; w.restarts++) this.restartTimes.push(now);
+    }
+    if (available) this.options.onAvailable?.();
+  }
+
+  private checkHealth = async () => {
+    await Promise.all(this.pool.map(async w => {
+      if (w.backend.health().status === 'failed') return;
+      if (!await w.backend.check(this.options)) {
+        w.failedChecks++;
+        console.warn(`TTS worker ${w.index} failed its health check (${w.failedChecks} so far)`);
+      }
+    }));
+  }
+
+  private onWorkerFatal = () => {
+    if (++this.failed === this.pool.length) this.options.onFatal?.();
+  }
+}
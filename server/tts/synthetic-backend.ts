@@ -0,0 +1,93 @@
+import { PcmChannel } from './pcm-channel';
+import { TTS_SAMPLE_RATE, type TtsBackend, type TtsHealth } from './types';
+
+export interface SyntheticBackendOptions {
+  shape?: 'tone' | 'noise';
+  // Seconds of audio per character, roughly conversational speaking rate
+  secondsPerChar?: number;
+  // 1 streams in real time, 0 returns everything as fast as possible
+  realtimeFactor?: number;
+}
+
+// One Mimi frame at 24 kHz, the same granularity the MLX backend streams in
+const FRAME_SAMPLES = 1920;
+
+/**
+ * Offline stand-in for a real voice. Every word becomes a short burst of tone
+ * or noise whose pitch and texture depend only on the word, so the same text
+ * always produces the same PCM, and its length follows the text's length.
+ */
+export class SyntheticTtsBackend implements TtsBackend {
+  readonly name = 'synthetic';
+  private running = false;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private options: SyntheticBackendOptions = {}) {}
+
+  start = async () => { this.running = true; }
+
+  synthesize = (text: string, voice?: string, signal?: AbortSignal): AsyncIterable<Buffer> => {
+    const channel = new PcmChannel();
+    if (!this.running) {
+      channel.close(new Error('TTS stopped'));
+      return channel;
+    }
+    signal?.addEventListener('abort', () => channel.discard(), { once: true });
+    this.tail = this.tail.then(() => this.stream(render(text, voice ?? '', this.options), channel));
+    return channel;
+  }
+
+  shutdown = async () => { this.running = false; }
+
+  health = (): TtsHealth => ({ status: this.running ? 'ready' : 'stopped', restarts: 0 });
+
+  check = async () => this.running;
+
+  private stream = async (pcm: Float32Array, channel: PcmChannel) => {
+    const frameMs = (FRAME_SAMPLES / TTS_SAMPLE_RATE) * 1000 * (this.options.realtimeFactor ?? 1);
+    for (let offset = 0; offset < pcm.length && this.running && !channel.isDiscarding(); offset += FRAME_SAMPLES) {
+      const frame = pcm.subarray(offset, offset + FRAME_SAMPLES);
+      channel.push(Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength));
+      if (frameMs > 0) await new Promise(r => setTimeout(r, frameMs));
+    }
+    channel.close();
+  }
+}
+
+// FNV-1a, used to derive per-word pitch and noise seeds
+const hash = (s: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+const render = (text: string, voice: string, options: SyntheticBackendOptions) => {
+  const secondsPerChar = options.secondsPerChar ?? 0.06;
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const gap = Math.round(0.05 * TTS_SAMPLE_RATE);
+  const lengths = words.map(w => Math.max(1, Math.round(w.length * secondsPerChar * TTS_SAMPLE_RATE)));
+  const pcm = new Float32Array(lengths.reduce((sum, n) => sum + n + gap, 0));
+  const voiceShift = (hash(voice) % 60) - 30;
+
+  let offset = 0;
+  words.forEach((word, w) => {
+    const seed = hash(word.toLowerCase());
+    const freq = 140 + (seed % 160) + voiceShift;
+    let noise = seed || 1;
+    const n = lengths[w];
+    for (let i = 0; i < n; i++) {
+      // Short attack and release so word boundaries don't click
+      const envelope = Math.min(1, i / 240, (n - i) / 240);
+      let sample: number;
+      if (options.shape === 'noise') {
+        noise = (Math.imul(noise, 1664525) + 1013904223) >>> 0;
+        sample = noise / 0xffffffff * 2 - 1;
+      } else {
+        sample = Math.sin(2 * Math.PI * freq * i / TTS_SAMPLE_RATE);
+      }
+      pcm[offset + i] = 0.3 * envelope * sample;
+    }
+    offset += n + gap;
+  });
+  return pcm;
+};
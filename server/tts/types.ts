@@ -0,0 +1,35 @@
+export const TTS_SAMPLE_RATE = 24000;
+
+export type TtsStatus = 'stopped' | 'starting' | 'ready' | 'restarting' | 'failed';
+
+export interface TtsHealth {
+  status: TtsStatus;
+  restarts: number;
+  detail?: string;
+}
+
+export interface HealthCheckOptions {
+  // How long a probe may go unanswered
+  timeoutMs: number;
+  // How long an utterance may go without producing audio
+  stallMs: number;
+}
+
+/**
+ * A speech synthesizer. Audio is mono f32le PCM at TTS_SAMPLE_RATE, streamed
+ * as it is generated. Backends handle one utterance at a time: a second
+ * synthesize() call waits for the first to finish. The stream ends when the
+ * backend is done with the utterance and ready for the next one. Aborting the
+ * signal abandons the utterance: no more audio is yielded, and the stream ends
+ * without an error as soon as the backend has let go of it.
+ */
+export interface TtsBackend {
+  readonly name: string;
+  start(): Promise<void>;
+  synthesize(text: string, voice?: string, signal?: AbortSignal): AsyncIterable<Buffer>;
+  shutdown(): Promise<void>;
+  health(): TtsHealth;
+  // Probes the backend. One that doesn't answer, or is stuck on an utterance,
+  // restarts itself and reports false.
+  check(options: HealthCheckOptions): Promise<boolean>;
+}
@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs';
+import type { VoiceInfo } from '../../shared/protocol';
+
+// A voice clients can pick, and the conditioning sample the TTS worker loads
+// for it (a path in the worker's voice repo, kyutai/tts-voices by default)
+export interface Voice extends VoiceInfo {
+  path: string;
+}
+
+const BUILTIN_VOICES: Voice[] = [
+  { id: 'happy', name: 'Happy', description: 'Upbeat and bright', path: 'expresso/ex03-ex01_happy_001_channel1_334s.wav' },
+  { id: 'calm', name: 'Calm', description: 'Relaxed and even', path: 'expresso/ex03-ex01_calm_001_channel1_1143s.wav' },
+  { id: 'narrator', name: 'Narrator', description: 'Steady storytelling voice', path: 'expresso/ex03-ex02_narration_001_channel1_674s.wav' },
+  { id: 'vctk-p225', name: 'Clear', description: 'Neutral read speech', path: 'vctk/p225_023.wav' },
+];
+
+const isVoice = (v: unknown): v is Voice => {
+  const voice = v as Voice;
+  return typeof voice === 'object' && voice !== null
+    && typeof voice.id === 'string' && typeof voice.name === 'string' && typeof voice.path === 'string';
+};
+
+/**
+ * The voices sessions can choose from. The first one is the default.
+ */
+export class VoiceCatalog {
+  readonly voices: Voice[];
+
+  constructor(options: { file?: string; defaultVoice?: string } = {}) {
+    const voices: unknown = options.file ? JSON.parse(readFileSync(options.file, 'utf8')) : BUILTIN_VOICES;
+    if (!Array.isArray(voices) || !voices.length || !voices.every(isVoice)) {
+      throw new Error(`Voice catalog ${options.file} must be a non-empty array of {id, name, path} objects`);
+    }
+    const first = voices.find(v => v.id === options.defaultVoice);
+    if (options.defaultVoice && !first) throw new Error(`Default voice "${options.defaultVoice}" is not in the voice catalog`);
+    this.voices = first ? [first, ...voices.filter(v => v !== first)] : voices;
+  }
+
+  get defaultVoice() { return this.voices[0]; }
+
+  get = (id: string) => this.voices.find(v => v.id === id);
+
+  ids = () => this.voices.map(v => v.id);
+
+  // What clients see: no worker paths
+  describe = (): VoiceInfo[] => this.voices.map(({ id, name, description }) => ({ id, name, description }));
+}
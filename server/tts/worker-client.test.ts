@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { TtsWorkerClient, type WorkerEvent } from './worker-client';
+
+// A worker whose stdout the test writes
+const fakeWorker = () => {
+  const stdout = new EventEmitter();
+  const events: WorkerEvent[] = [];
+  new TtsWorkerClient({ stdout } as unknown as ChildProcess, event => events.push(event));
+  return { events, write: (data: Buffer) => stdout.emit('data', data) };
+};
+
+const frame = (header: object | string, payload = Buffer.alloc(0)) => {
+  const json = Buffer.from(typeof header === 'string' ? header : JSON.stringify(header));
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(json.length);
+  return Buffer.concat([length, json, payload]);
+};
+
+describe('TtsWorkerClient', () => {
+  test('decodes frames split across reads', () => {
+    const { events, write } = fakeWorker();
+    const pcm = Buffer.from(new Float32Array([0.5, -0.5]).buffer);
+    const data = Buffer.concat([frame({ type: 'ready' }), frame({ type: 'audio', id: 'u1', seq: 0, bytes: pcm.length }, pcm)]);
+    write(data.subarray(0, 10));
+    write(data.subarray(10));
+
+    expect(events).toEqual([{ type: 'ready' }, { type: 'audio', id: 'u1', seq: 0, pcm }]);
+  });
+
+  test('reports an unparsable header instead of throwing', () => {
+    const { events, write } = fakeWorker();
+    expect(() => write(frame('{not json'))).not.toThrow();
+    expect(events).toEqual([{ type: 'corrupt', message: 'Corrupt TTS worker output: unparsable header' }]);
+
+    // Nothing after it is read
+    write(frame({ type: 'ready' }));
+    expect(events).toHaveLength(1);
+  });
+
+  test('reports a garbage header length at once', () => {
+    const { events, write } = fakeWorker();
+    write(Buffer.from([0xff, 0xff, 0xff, 0x7f]));
+    expect(events[0]?.type).toBe('corrupt');
+  });
+
+  test('reports an audio frame with a bad length', () => {
+    const { events, write } = fakeWorker();
+    write(frame({ type: 'audio', id: 'u1', seq: 0, bytes: -4 }));
+    expect(events[0]?.type).toBe('corrupt');
+  });
+});
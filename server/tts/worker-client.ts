@@ -0,0 +1,109 @@
+import type { ChildProcess } from 'child_process';
+
+// Client side of the jsonl protocol spoken by scripts/tts_mlx_streaming.py
+
+export interface WorkerRequest {
+  id: string;
+  text: string;
+  voice?: string;
+  options?: { temp?: number };
+}
+
+export type WorkerEvent =
+  | { type: 'ready' }
+  | { type: 'audio'; id: string; seq: number; pcm: Buffer }
+  | { type: 'utterance_done'; id: string; samples: number; cancelled: boolean }
+  | { type: 'error'; id?: string; message: string }
+  // busy: the request the worker is synthesizing, if any
+  | { type: 'pong'; id: string; busy: string | null }
+  // The worker's output can't be read any further; it has to be restarted
+  | { type: 'corrupt'; message: string };
+
+// Headers as the worker writes them; an audio header is followed by `bytes`
+// bytes of PCM
+type WorkerHeader =
+  | { type: 'ready' }
+  | { type: 'audio'; id: string; seq: number; bytes: number }
+  | { type: 'utterance_done'; id: string; samples: number; cancelled?: boolean }
+  | { type: 'error'; id?: string | null; message: string }
+  | { type: 'pong'; id: string; busy?: string | null };
+
+// Far above anything the worker writes, so a garbage length is caught at once
+// instead of waiting for bytes that never come
+const MAX_HEADER_BYTES = 64 * 1024;
+const MAX_PAYLOAD_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Writes JSON request lines to the worker's stdin and decodes its framed
+ * stdout: a u32 little-endian header length, a JSON header, and for audio
+ * messages `bytes` bytes of f32le PCM.
+ */
+export class TtsWorkerClient {
+  private pending: Buffer = Buffer.alloc(0);
+  private corrupt = false;
+
+  constructor(private proc: ChildProcess, private onEvent: (event: WorkerEvent) => void) {
+    proc.stdout?.on('data', (data: Buffer) => this.receive(data));
+  }
+
+  synthesize = (request: WorkerRequest) => this.write({ type: 'synthesize', ...request });
+  cancel = (id: string) => this.write({ type: 'cancel', id });
+  ping = (id: string) => this.write({ type: 'ping', id });
+
+  private write = (message: object) => {
+    if (!this.proc.stdin?.writable) throw new Error('TTS worker stdin closed');
+    this.proc.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private receive = (data: Buffer) => {
+    if (this.corrupt) return;
+    this.pending = this.pending.length ? Buffer.concat([this.pending, data]) : data;
+    while (this.pending.length >= 4) {
+      const headerBytes = this.pending.readUInt32LE(0);
+      if (headerBytes > MAX_HEADER_BYTES) return this.fail(`header length ${headerBytes}`);
+      if (this.pending.length < 4 + headerBytes) return;
+      let header: WorkerHeader;
+      try {
+        header = JSON.parse(this.pending.subarray(4, 4 + headerBytes).toString('utf8'));
+      } catch {
+        return this.fail('unparsable header');
+      }
+      if (typeof header !== 'object' || header === null || typeof header.type !== 'string') return this.fail('header without a type');
+      const payloadBytes = header.type === 'audio' ? Number(header.bytes) : 0;
+      if (!Number.isInteger(payloadBytes) || payloadBytes < 0 || payloadBytes > MAX_PAYLOAD_BYTES) {
+        return this.fail(`audio length ${payloadBytes}`);
+      }
+      const end = 4 + headerBytes + payloadBytes;
+      if (this.pending.length < end) return;
+
+      const payload = this.pending.subarray(4 + headerBytes, end);
+      this.pending = this.pending.subarray(end);
+      this.dispatch(header, payload);
+    }
+  }
+
+  // Frames can't be found again after a bad one: stop reading for good
+  private fail = (reason: string) => {
+    this.corrupt = true;
+    this.pending = Buffer.alloc(0);
+    this.onEvent({ type: 'corrupt', message: `Corrupt TTS worker output: ${reason}` });
+  }
+
+  private dispatch = (header: WorkerHeader, payload: Buffer) => {
+    switch (header.type) {
+      case 'ready':
+        return this.onEvent({ type: 'ready' });
+      case 'audio':
+        // Copy out, so the chunk doesn't pin the whole read buffer
+        return this.onEvent({ type: 'audio', id: header.id, seq: header.seq, pcm: Buffer.from(payload) });
+      case 'utterance_done':
+        return this.onEvent({ type: 'utterance_done', id: header.id, samples: header.samples, cancelled: Boolean(header.cancelled) });
+      case 'error':
+        return this.onEvent({ type: 'error', id: header.id ?? undefined, message: String(header.message) });
+      case 'pong':
+        return this.onEvent({ type: 'pong', id: header.id, busy: header.busy ?? null });
+      default:
+        console.warn('Unknown TTS worker message:', header);
+    }
+  }
+}
@@ -1,171 +1,781 @@
-import { openai } from '@ai-sdk/openai';
-import { streamText } from 'ai';
-import { spawn, type ChildProcess } from 'child_process';
+import { stepCountIs, streamText, type LanguageModel } from 'ai';
+import { AudioFrameFlag, decodeAudioFrame, encodeAudioFrame, type AudioEncoding } from '../shared/audio-frame';
+import {
+  CONVERSATIONS_PATH,
+  CloseCode,
+  ENCODINGS_QUERY_PARAM,
+  PROTOCOL_QUERY_PARAM,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  SUBPROTOCOL,
+  VOICES_PATH,
+  isKnownTo,
+  isSupportedVersion,
+  parseClientMessage,
+  type ConversationSummary,
+  type HistoryTurn,
+  type ServerMessage,
+  type SessionConfig,
+  type StoredTurn,
+  type ToolRecord,
+  type VoicesResponse,
+} from '../shared/protocol';
+import { encodeWav } from '../shared/wav';
+import {
+  createAudioEncoder,
+  describeAudioFormat,
+  negotiateEncoding,
+  type AudioEncoder,
+  type EncodedAudio,
+} from './audio-encoder';
+import { KeyStore, tokenFromRequest, type ApiKey } from './auth';
+import { config } from './config';
+import { ConversationHistory } from './conversation';
+import { handleConversationRequest, type ReplySpeaker } from './conversation-routes';
+import { ConversationStore, titleFrom } from './conversation-store';
+import { Counter, Gauge, Histogram, MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from './metrics';
+import { createLanguageModel, describeLlm, modelIdOf, withModel } from './llm';
+import { ModerationPipeline, createModerators, type ModerationDecision, type ModerationTarget } from './moderation';
+import { RateLimiter, type RateLimits } from './rate-limit';
+import { SessionConfigPolicy, type SessionConfigUpdate } from './session-config';
+import { SpeechNormalizer } from './speech';
+import { AudioInputSession, createSttBackend, type AudioInputOptions } from './stt';
+import { registerBuiltinTools, toolNames, toolPlaceholder, toolSet, type ToolContext } from './tools';
+import { TTS_SAMPLE_RATE, TtsPool, VoiceCatalog, createTtsBackend, type TtsBackend, type Voice } from './tts';
+import { TtsDispatcher } from './tts-dispatcher';
+import { TTSQueue, type Utterance } from './tts-queue';
 
-type WebSocketClient = { ws: any; id: string };
+// The reply currently being generated and spoken for a client
+type Turn = {
+  id: number;
+  controller: AbortController;
+  // Audio bookkeeping for frame headers; samples are counted per listener,
+  // since each may get a different encoding
+  utterances: number;
+  samples: Map<string, number>;
+  // Voice path for the TTS, fixed for the whole reply
+  voice: string;
+  // For the latency histograms and the stored turn, from performance.now()
+  startedAt: number;
+  firstAudioMs: number | null;
+  // Where the turn was stored, once its text is done
+  stored: { conversationId: string; index: number } | null;
+};
 
-class TTSQueue {
-  private queue: string[] = [];
-  private buffer = '';
-  private timeout: NodeJS.Timeout | null = null;
-  
-  add = (text: string) => {
-    this.buffer += text;
-    this.timeout && clearTimeout(this.timeout);
-    this.timeout = setTimeout(() => this.flush(), 200);
-  }
-  
-  flush = () => {
-    if (this.buffer.trim()) {
-      this.queue.push(this.buffer.trim());
-      this.buffer = '';
-    }
-    this.timeout && clearTimeout(this.timeout);
-    this.timeout = null;
-  }
-  
-  next = () => this.queue.shift() || null;
-  isEmpty = () => !this.queue.length;
-  size = () => this.queue.length;
-  clear = () => { 
-    this.flush();
-    this.queue = [];
-  }
-}
+// What the upgrade request settled, for open() to act on
+type SocketData = {
+  protocolVersion: number | null;
+  audioEncoding: AudioEncoding;
+  authorized: boolean;
+  apiKey: Omit<ApiKey, 'token'> | null;
+  // The token's name, or the IP without auth
+  rateKey: string;
+};
+
+// Whose conversations a connection or request sees: the key's, or everyone's without auth
+const ownerOf = (apiKey: Omit<ApiKey, 'token'> | null) => apiKey?.name ?? '';
+
+type WebSocketClient = {
+  ws: any;
+  id: string;
+  rateKey: string;
+  rateLimits?: Partial<RateLimits>;
+  // JSON messages since the last chat message, for the per-turn limit
+  turnMessages: number;
+  history: ConversationHistory;
+  turn: Turn | null;
+  audioEncoding: AudioEncoding;
+  audioInput: AudioInputSession | null;
+  config: SessionConfig;
+  owner: string;
+  // The stored conversation new turns go to; created by the first turn
+  conversation: ConversationSummary | null;
+};
 
-const ttsQueue = new TTSQueue();
-const clients = new Set<WebSocketClient>();
-let ttsProcess: ChildProcess | null = null;
-let restarts = 0;
+const ttsQueue = new TTSQueue(config.phrases, new SpeechNormalizer(config.speech), () => dispatcher.pump());
+const clients = new Map<string, WebSocketClient>();
+// Resolvers waiting for a client's socket to drain, by client id
+const drainWaiters = new Map<string, (() => void)[]>();
 
 const broadcast = (data: any, onError?: (client: WebSocketClient) => void) => {
   clients.forEach(client => {
     try { client.ws.send(data); } 
-    catch { onError?.(client) || clients.delete(client); }
+    catch { onError?.(client) || clients.delete(client.id); }
   });
 };
 
-const startTTS = (): ChildProcess => {
-  console.log('Starting TTS process...');
-  const proc = spawn('uv', ['run', '../scripts/tts_mlx_streaming.py', '--quantize', '8', 'stdout'], 
-    { stdio: ['pipe', 'pipe', 'pipe'], cwd: process.cwd() });
+// Skips events the client's protocol version doesn't have yet
+const send = (ws: any, message: ServerMessage) => {
+  const version: number | null = ws.data?.protocolVersion ?? null;
+  if (version === null || !isSupportedVersion(version) || isKnownTo(version, message.type)) ws.send(JSON.stringify(message));
+};
+
+const sendTo = (clientId: string, data: any) => {
+  const client = clients.get(clientId);
+  if (!client) return;
+  try { client.ws.send(data); }
+  catch { clients.delete(clientId); }
+};
+
+// Clients that hear a client's answers
+const listenersOf = (clientId: string) => config.audioRouting === 'broadcast'
+  ? [...clients.values()]
+  : [clients.get(clientId)].filter(client => client !== undefined);
+
+const isCongested = (clientId: string) =>
+  (clients.get(clientId)?.ws.getBufferedAmount() ?? 0) > config.maxBufferedAudioBytes;
+
+// Resolves on the socket's next drain, or after a second in case none comes
+const waitForDrain = (clientId: string) => new Promise<void>(resolve => {
+  drainWaiters.set(clientId, [...drainWaiters.get(clientId) ?? [], resolve]);
+  setTimeout(resolve, 1000);
+});
+
+const notifyDrained = (clientId: string) => {
+  drainWaiters.get(clientId)?.forEach(resolve => resolve());
+  drainWaiters.delete(clientId);
+};
+
+const tts = new TtsPool(hooks => createTtsBackend(config.tts, hooks), {
+  ...config.ttsPool,
+  onFatal: () => broadcast(JSON.stringify({ type: 'error', code: 'tts_unavailable', message: 'TTS unavailable' } satisfies ServerMessage)),
+  onAvailable: () => dispatcher.pump(),
+});
+
+const speak = async ({ clientId, text }: Utterance, backend: TtsBackend) => {
+  // Queued utterances always belong to the client's current turn
+  const turn = clients.get(clientId)?.turn;
+  if (!turn) return;
+  const utteranceId = turn.utterances++;
+  let sequence = 0;
+  const encoders = new Map<string, AudioEncoder>();
+
+  const sendFrame = (encode: (encoder: AudioEncoder) => EncodedAudio, flags = 0) => {
+    const frameSequence = sequence++;
+    for (const listener of listenersOf(clientId)) {
+      let encoder = encoders.get(listener.id);
+      if (!encoder) {
+        encoder = createAudioEncoder(listener.audioEncoding, config.audioEncoding);
+        encoders.set(listener.id, encoder);
+      }
+      const { payload, samples } = encode(encoder);
+      const sampleOffset = turn.samples.get(listener.id) ?? 0;
+      turn.samples.set(listener.id, sampleOffset + samples);
+      if (payload.byteLength && turn.firstAudioMs === null) {
+        turn.firstAudioMs = performance.now() - turn.startedAt;
+        metrics.timeToFirstAudio.observe(turn.firstAudioMs / 1000);
+        if (turn.stored) conversations?.setFirstAudio(turn.stored.conversationId, turn.stored.index, Math.round(turn.firstAudioMs));
+      }
+      metrics.audioBytes.inc({ encoding: listener.audioEncoding }, payload.byteLength);
+      sendTo(listener.id, encodeAudioFrame({
+        format: encoder.format,
+        flags: config.audioRouting === 'broadcast' ? flags | AudioFrameFlag.Broadcast : flags,
+        turnId: turn.id,
+        utteranceId,
+        sequence: frameSequence,
+        sampleOffset,
+      }, payload));
+    }
+  };
+
+  try {
+    for await (const pcm of backend.synthesize(text, turn.voice, turn.controller.signal)) {
+      sendFrame(encoder => encoder.encode(pcm));
+      // Let the socket catch up; the backend's output waits in its stream
+      while (isCongested(clientId) && !turn.controller.signal.aborted) await waitForDrain(clientId);
+    }
+  } catch (e) {
+    console.error('TTS failed:', e);
+  } finally {
+    if (!turn.controller.signal.aborted) sendFrame(encoder => encoder.end(), AudioFrameFlag.EndOfUtterance);
+    encoders.forEach(encoder => encoder.free());
+  }
+};
+
+const dispatcher = new TtsDispatcher(ttsQueue, tts, speak, isCongested);
+
+const cancelTurn = (client: WebSocketClient) => {
+  client.turn?.controller.abort();
+  client.turn = null;
+  ttsQueue.clear(client.id);
+};
+
+const voices = new VoiceCatalog(config.voices);
+
+const defaultModel = modelIdOf(config.llm.provider);
+const sessionConfig = new SessionConfigPolicy({
+  model: defaultModel,
+  systemPrompt: config.llm.system,
+  voice: voices.defaultVoice.id,
+  ...(config.llm.temperature !== undefined && { temperature: config.llm.temperature }),
+  ...(config.llm.maxTokens !== undefined && { maxTokens: config.llm.maxTokens }),
+}, {
+  models: [...new Set([defaultModel, ...config.llm.allowedModels])],
+  voices: voices.ids(),
+  temperature: { min: 0, max: 2 },
+  maxTokens: config.llm.maxTokensLimit,
+  systemPromptMaxChars: config.llm.systemPromptMaxChars,
+});
+
+// Models are created the first time a session picks them
+const models = new Map<string, LanguageModel>();
+const modelFor = (id: string) => {
+  let model = models.get(id);
+  if (!model) {
+    model = createLanguageModel(withModel(config.llm.provider, id));
+    models.set(id, model);
+  }
+  return model;
+};
+
+if (config.tools.enabled) registerBuiltinTools(config.tools);
+const tools = config.tools.enabled ? toolSet() : undefined;
+
+const keys = new KeyStore(config.auth);
+const limiter = new RateLimiter(config.rateLimits);
+
+// Charges a turn's LLM tokens, as reported by the provider or else estimated
+const chargeUsage = async (client: WebSocketClient, usage: PromiseLike<{ totalTokens?: number }>, estimate: number) => {
+  let tokens: number | undefined;
+  try { tokens = (await usage).totalTokens; } catch { /* the stream failed or was cancelled */ }
+  limiter.chargeLlm(client.rateKey, tokens || estimate, client.rateLimits);
+};
+
+const moderation = new ModerationPipeline(createModerators(config.moderation));
+
+const reportModeration = (client: WebSocketClient, turnId: number, target: ModerationTarget, decision: ModerationDecision) => {
+  if (decision.action === 'allow') return;
+  const action = decision.action === 'block' ? 'blocked' : 'rewritten';
+  console.log(`Moderation (${client.id}, turn ${turnId}): ${target} ${action} (${decision.reason})`);
+  metrics.moderation.inc({ target, action, reason: decision.reason });
+  send(client.ws, {
+    type: 'moderation',
+    turnId,
+    target,
+    action,
+    reason: decision.reason,
+    ...(target === 'prompt' && decision.action === 'rewrite' && { text: decision.text }),
+  });
+};
+
+const conversations = config.conversationsDb === 'off' ? null : new ConversationStore(config.conversationsDb);
+
+// Stores a finished turn, starting a conversation with the first one, or again
+// if the open one was deleted meanwhile
+const storeTurn = (client: WebSocketClient, turn: Turn, record: Omit<StoredTurn, 'index'>) => {
+  if (!conversations) return;
+  const { owner } = client;
+  try {
+    let stored = client.conversation && conversations.appendTurn(owner, client.conversation.id, record);
+    stored ??= conversations.appendTurn(owner, conversations.create(owner, titleFrom(record.prompt)).id, record)!;
+    turn.stored = { conversationId: stored.summary.id, index: stored.index };
+    client.conversation = stored.summary;
+    send(client.ws, { type: 'conversation', conversation: stored.summary });
+  } catch (error) {
+    console.error(`Storing a turn failed (${client.id}):`, error);
+  }
+};
+
+// Continues a stored conversation, or starts a new one, seeded with the
+// client's history if it has one
+const openConversation = (client: WebSocketClient, id: string | null, seed?: HistoryTurn[]) => {
+  const conversation = id === null ? null : conversations?.get(client.owner, id);
+  if (id !== null && !conversation && !seed) throw new ProtocolError('unknown_conversation', `No conversation ${id}`);
+  cancelTurn(client);
+  // A fresh object, so a reply still unwinding can't write into it
+  client.history = new ConversationHistory(config.llm.history);
+  client.conversation = null;
+  if (conversation) {
+    const { turns, ...summary } = conversation;
+    turns.forEach(t => t.reply && client.history.commit(t.prompt, t.reply));
+    client.conversation = summary;
+  } else {
+    seed?.forEach(t => t.reply && client.history.commit(t.prompt, t.reply));
+  }
+  console.log(`Conversation (${client.id}): ${conversation ? `${conversation.id}, ${conversation.turnCount} turns` : `new${seed?.length ? `, seeded with ${seed.length} turns` : ''}`}`);
+  send(client.ws, { type: 'conversation', conversation: client.conversation });
+};
+
+const handleChat = async (client: WebSocketClient, rawPrompt: string, turnId: number) => {
+  const { ws } = client;
+  // Refusals come before cancelling anything, so they leave the current reply alone
+  const { maxPromptChars } = config.inputLimits;
+  if (rawPrompt.length > maxPromptChars) {
+    throw new ProtocolError('prompt_too_long', `Prompt is ${rawPrompt.length} characters, the limit is ${maxPromptChars}`);
+  }
+  limiter.checkLlm(client.rateKey, client.rateLimits);
+  const verdict = await moderation.moderate(rawPrompt, 'prompt');
+  reportModeration(client, turnId, 'prompt', verdict);
+  if (verdict.action === 'block') return;
+  const prompt = verdict.action === 'rewrite' ? verdict.text : rawPrompt;
+
+  console.log(`Chat (${client.id}, turn ${turnId}):`, prompt);
+  cancelTurn(client);
+  client.turnMessages = 0;
+  const settings = client.config;
+  const turn: Turn = {
+    id: turnId,
+    controller: new AbortController(),
+    utterances: 0,
+    samples: new Map(),
+    voice: (voices.get(settings.voice) ?? voices.defaultVoice).path,
+    startedAt: performance.now(),
+    firstAudioMs: null,
+    stored: null,
+  };
+  metrics.turns.inc();
+  const { signal } = turn.controller;
+  const history = client.history;
+  client.turn = turn;
   
-  proc.stderr?.on('data', data => console.log(`TTS Log: ${data}`));
-  proc.stdout?.on('data', (pcm: Buffer) => broadcast(pcm));
-  proc.on('error', err => { console.error('TTS Error:', err); restartTTS(); });
-  proc.on('exit', code => code && restartTTS());
+  const stopModel = new AbortController();
+  const result = streamText({
+    model: modelFor(settings.model),
+    system: settings.systemPrompt,
+    temperature: settings.temperature,
+    maxOutputTokens: settings.maxTokens,
+    messages: history.messagesFor(prompt),
+    tools,
+    stopWhen: stepCountIs(config.tools.maxSteps),
+    // Tools keep each owner's data apart
+    experimental_context: { owner: client.owner } satisfies ToolContext,
+    // Moderation can stop the model without cancelling audio already queued
+    abortSignal: AbortSignal.any([signal, stopModel.signal]),
+  });
+
+  console.log(`Starting text stream (${history.size()} previous turns)...`);
+  let chunkCount = 0;
+  let reply = '';
+  const toolCalls: ToolRecord[] = [];
+  const recordToolResult = (id: string, result: Pick<ToolRecord, 'output' | 'error'>) => {
+    const call = toolCalls.find(t => t.id === id);
+    if (call) Object.assign(call, result);
+  };
+  let firstTokenMs: number | undefined;
+  const output = moderation.createOutputFilter();
+  // Shows and speaks moderated text; false once moderation blocked the reply
+  const emit = async (moderated: Promise<{ text: string; decision: ModerationDecision }>) => {
+    const { text, decision } = await moderated;
+    reportModeration(client, turnId, 'output', decision);
+    if (text && !signal.aborted) {
+      chunkCount++;
+      reply += text;
+      console.log(`Chunk ${chunkCount}: "${text}"`);
+      send(ws, { type: 'text_chunk', text });
+      ttsQueue.add(client.id, text);
+    }
+    return decision.action !== 'block';
+  };
+  let tokens = 0;
+  let blocked = false;
+  let completed = false;
+  try {
+    for await (const part of result.fullStream) {
+      if (signal.aborted) break;
+      switch (part.type) {
+        case 'text-delta':
+          if (!tokens++) {
+            firstTokenMs = performance.now() - turn.startedAt;
+            metrics.timeToFirstToken.observe(firstTokenMs / 1000);
+          }
+          blocked = !await emit(output.push(part.text));
+          break;
+        case 'tool-call':
+          // Text before the call goes out first, so the client can place the call in it
+          blocked = !await emit(output.flush());
+          if (blocked) break;
+          console.log(`Tool call (${client.id}): ${part.toolName}`, part.input);
+          send(ws, { type: 'tool_call', toolCallId: part.toolCallId, toolName: part.toolName, input: part.input });
+          toolCalls.push({ id: part.toolCallId, name: part.toolName, input: part.input, textOffset: reply.length });
+          ttsQueue.say(client.id, toolPlaceholder(part.toolName));
+          break;
+        case 'tool-result':
+          send(ws, { type: 'tool_result', toolCallId: part.toolCallId, toolName: part.toolName, output: part.output });
+          recordToolResult(part.toolCallId, { output: part.output });
+          break;
+        case 'tool-error': {
+          console.warn(`Tool ${part.toolName} failed:`, part.error);
+          const error = String(part.error instanceof Error ? part.error.message : part.error);
+          send(ws, { type: 'tool_result', toolCallId: part.toolCallId, toolName: part.toolName, error });
+          recordToolResult(part.toolCallId, { error });
+          break;
+        }
+        case 'error':
+          throw part.error;
+      }
+      if (blocked) {
+        stopModel.abort();
+        break;
+      }
+    }
+    if (!blocked && !signal.aborted) await emit(output.flush());
+    completed = true;
+  } catch (error) {
+    if (!signal.aborted) {
+      metrics.llmErrors.inc();
+      throw error;
+    }
+  } finally {
+    // Cancelled streams may never report usage, so estimate at ~4 chars a token
+    const estimate = Math.ceil((settings.systemPrompt.length + JSON.stringify(history.messagesFor(prompt)).length + reply.length) / 4);
+    chargeUsage(client, signal.aborted || blocked ? Promise.resolve({}) : result.totalUsage, estimate);
+    // Keep whatever the user already saw, even if the stream broke off
+    if (reply) history.commit(prompt, reply);
+    // Unless the session has moved to another conversation since
+    if ((reply || toolCalls.length) && client.history === history) {
+      storeTurn(client, turn, {
+        prompt,
+        reply,
+        tools: toolCalls,
+        model: settings.model,
+        voice: settings.voice,
+        status: signal.aborted ? 'cancelled' : blocked ? 'blocked' : completed ? 'complete' : 'failed',
+        startedAt: new Date(Date.now() - (performance.now() - turn.startedAt)).toISOString(),
+        timings: {
+          ...(firstTokenMs !== undefined && { firstTokenMs: Math.round(firstTokenMs) }),
+          ...(turn.firstAudioMs !== null && { firstAudioMs: Math.round(turn.firstAudioMs) }),
+          totalMs: Math.round(performance.now() - turn.startedAt),
+        },
+      });
+    }
+  }
   
-  return proc;
+  if (signal.aborted) {
+    console.log(`Text streaming cancelled after ${chunkCount} chunks`);
+    return;
+  }
+  console.log(`Text streaming ${blocked ? 'stopped by moderation' : 'complete'}. Total chunks: ${chunkCount}`);
+  ttsQueue.flush(client.id);
+  send(ws, { type: 'text_complete' });
 };
 
-const restartTTS = () => {
-  if (restarts++ < 5) {
-    console.log(`Restarting TTS (${restarts}/5)...`);
-    setTimeout(() => { ttsProcess = startTTS(); }, 1000);
-  } else {
-    console.error('TTS crashed too many times');
-    broadcast(JSON.stringify({ type: 'error', message: 'TTS unavailable' }));
+const configure = (client: WebSocketClient, update: SessionConfigUpdate) => {
+  client.config = sessionConfig.apply(client.config, update);
+  const { systemPrompt, ...rest } = client.config;
+  console.log(`Configured (${client.id}): ${JSON.stringify(rest)}, system prompt of ${systemPrompt.length} chars`);
+  send(client.ws, { type: 'configured', config: client.config, limits: sessionConfig.limits });
+};
+
+const stt = createSttBackend(config.stt);
+
+const startAudioInput = (client: WebSocketClient, options: AudioInputOptions) => {
+  client.audioInput?.abort();
+  const { sessionId } = options;
+  console.log(`Audio input ${sessionId} (${client.id}) at ${options.sampleRate} Hz`);
+  client.audioInput = new AudioInputSession(options, stt,
+    text => send(client.ws, { type: 'transcript_partial', sessionId, text }));
+};
+
+const handleAudioInput = (client: WebSocketClient, data: Buffer) => {
+  const frame = decodeAudioFrame(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  if (!frame) throw new ProtocolError('invalid_audio', 'Binary message is not an audio frame');
+  // Frames still in flight after the session ended or was replaced
+  if (frame.header.turnId !== client.audioInput?.options.sessionId) return;
+  client.audioInput.push(frame);
+};
+
+const endAudioInput = async (client: WebSocketClient, sessionId: number) => {
+  const session = client.audioInput;
+  if (session?.options.sessionId !== sessionId) return;
+  client.audioInput = null;
+
+  let text: string;
+  try {
+    text = (await session.finish()).trim();
+  } catch (error) {
+    console.error('STT failed:', error);
+    send(client.ws, { type: 'error', code: 'stt_failed', message: 'Transcription failed' });
+    return;
+  }
+  const { chatTurnId } = session.options;
+  const startsChat = text !== '' && chatTurnId !== undefined;
+  console.log(`Transcript ${sessionId} (${client.id}):`, text);
+  send(client.ws, { type: 'transcript_final', sessionId, text, ...(startsChat && { chatTurnId }) });
+  if (startsChat) await handleChat(client, text, chatTurnId);
+};
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 1.5, 2, 3, 5, 10];
+const registry = new MetricsRegistry();
+const metrics = {
+  turns: registry.register(new Counter('voice_chat_turns_total', 'Chat turns started')),
+  llmErrors: registry.register(new Counter('voice_llm_errors_total', 'Chat turns that failed with an LLM error')),
+  timeToFirstToken: registry.register(new Histogram('voice_time_to_first_token_seconds', 'Time from a chat message to the first reply text', LATENCY_BUCKETS)),
+  timeToFirstAudio: registry.register(new Histogram('voice_time_to_first_audio_seconds', 'Time from a chat message to the first audio sent', LATENCY_BUCKETS)),
+  audioBytes: registry.register(new Counter('voice_audio_bytes_sent_total', 'Audio payload bytes sent to clients')),
+  rateLimited: registry.register(new Counter('voice_rate_limited_total', 'Messages refused for exceeding a rate limit')),
+  moderation: registry.register(new Counter('voice_moderation_decisions_total', 'Prompts and reply text blocked or rewritten by moderation')),
+};
+registry.register(new Gauge('voice_clients_connected', 'Connected WebSocket clients', () => clients.size));
+registry.register(new Gauge('voice_tts_queue_depth', 'Utterances waiting for a TTS worker', () => ttsQueue.size()));
+registry.register(new Gauge('voice_tts_workers', 'TTS workers by status', () => {
+  const { workers } = tts.stats();
+  return (['starting', 'ready', 'restarting', 'stopped', 'failed'] as const)
+    .map(status => [{ status }, workers.filter(w => w.status === status).length]);
+}));
+registry.register(new Gauge('voice_tts_worker_utilization', 'Share of the last minute each TTS worker spent synthesizing', () =>
+  tts.stats().workers.map(w => [{ worker: w.index }, w.utilization])));
+registry.register(new Counter('voice_tts_restarts_total', 'TTS worker restarts', () =>
+  tts.stats().workers.map(w => [{ worker: w.index }, w.restarts])));
+registry.register(new Counter('voice_tts_failed_health_checks_total', 'TTS health checks that failed', () =>
+  tts.stats().workers.map(w => [{ worker: w.index }, w.failedChecks])));
+
+// Ready to take traffic: enough TTS workers up, and not crash-looping
+const readiness = () => {
+  const pool = tts.stats();
+  const restarts = pool.workers.reduce((sum, w) => sum + w.restarts, 0);
+  // Recent ones only, so a pool that has been healthy since comes back
+  const recentRestarts = tts.restartsWithin(config.readiness.ttsRestartWindowMs);
+  const minWorkers = Math.min(config.readiness.minTtsWorkers, pool.size);
+  const checks = {
+    ttsWorkers: pool.ready >= minWorkers,
+    ttsRestarts: recentRestarts <= config.readiness.maxTtsRestarts,
+  };
+  return {
+    ready: Object.values(checks).every(Boolean),
+    checks,
+    tts: { status: tts.health().status, ready: pool.ready, size: pool.size, restarts, recentRestarts },
+  };
+};
+
+const PREVIEW_TEXT = 'Hi there! This is how I sound. Pick me if you like what you hear.';
+// Synthesized once per voice, on first request
+const previews = new Map<string, Promise<Uint8Array>>();
+
+// Waits for a worker no conversation needs, so live speech goes first
+const synthesizeAll = async (text: string, voice: Voice) => {
+  const chunks: Buffer[] = [];
+  for await (const pcm of dispatcher.synthesize(text, voice.path)) chunks.push(pcm);
+  const pcm = Buffer.concat(chunks);
+  return new Float32Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 4);
+};
+
+const previewOf = (voice: Voice) => {
+  let preview = previews.get(voice.id);
+  if (!preview) {
+    preview = (async () => encodeWav(await synthesizeAll(PREVIEW_TEXT, voice), TTS_SAMPLE_RATE))();
+    // Let a failed preview be retried
+    preview.catch(() => previews.delete(voice.id));
+    previews.set(voice.id, preview);
   }
+  return preview;
 };
 
-ttsProcess = startTTS();
+// Stored replies for audio exports, in their voice if it's still around
+const speakReply: ReplySpeaker = {
+  phrasesOf: ttsQueue.phrasesOf,
+  speak: async (phrase, voiceId) => ({
+    samples: await synthesizeAll(phrase, voices.get(voiceId) ?? voices.defaultVoice),
+    sampleRate: TTS_SAMPLE_RATE,
+  }),
+};
+
+// The browser client is served from another origin in development
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+};
+
+// Plain HTTP routes; anything else must be a WebSocket upgrade
+const startedAt = Date.now();
 
-const server = Bun.serve({
-  port: 3000,
-  fetch: (req, srv) => srv.upgrade(req) ? undefined : new Response("WebSocket required", { status: 400 }),
+const handleRequest = async (req: Request, url: URL): Promise<Response | undefined> => {
+  // CORS preflight, for the conversation routes' methods and Authorization header
+  if (req.method === 'OPTIONS') return new Response(null, { status: 204, headers: CORS_HEADERS });
+  switch (url.pathname) {
+    // The process is up and serving requests
+    case '/healthz':
+      return Response.json({ status: 'ok', uptimeSeconds: Math.round((Date.now() - startedAt) / 1000) });
+    case '/readyz': {
+      const status = readiness();
+      return Response.json(status, { status: status.ready ? 200 : 503 });
+    }
+    case '/metrics':
+      return new Response(registry.render(), { headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE } });
+  }
+  if (url.pathname === VOICES_PATH) {
+    return Response.json({ voices: voices.describe(), defaultVoice: voices.defaultVoice.id } satisfies VoicesResponse, { headers: CORS_HEADERS });
+  }
+  const preview = url.pathname.match(new RegExp(`^${VOICES_PATH}/([^/]+)/preview$`));
+  if (preview) {
+    const voice = voices.get(decodeURIComponent(preview[1]));
+    if (!voice) return new Response('Unknown voice', { status: 404, headers: CORS_HEADERS });
+    try {
+      // CORP too, so pages with require-corp isolation can play it without CORS
+      return new Response(await previewOf(voice), {
+        headers: { ...CORS_HEADERS, 'Cross-Origin-Resource-Policy': 'cross-origin', 'Content-Type': 'audio/wav', 'Cache-Control': 'max-age=3600' },
+      });
+    } catch (error) {
+      console.error(`Preview of ${voice.id} failed:`, error);
+      return new Response('Preview unavailable', { status: 503, headers: CORS_HEADERS });
+    }
+  }
+  if (conversations && (url.pathname === CONVERSATIONS_PATH || url.pathname.startsWith(`${CONVERSATIONS_PATH}/`))) {
+    const apiKey = keys.lookup(tokenFromRequest(req, url));
+    if (keys.enabled && !apiKey) return new Response('Unauthorized', { status: 401, headers: CORS_HEADERS });
+    return handleConversationRequest(req, url, conversations, ownerOf(apiKey), speakReply, CORS_HEADERS);
+  }
+  return undefined;
+};
+
+console.log(`Auth: ${keys.enabled ? `${keys.size()} key(s)` : 'off'}, rate limits: ${JSON.stringify(config.rateLimits)}`);
+console.log(`Conversations: ${conversations ? config.conversationsDb : 'not stored'}`);
+console.log(`Input limits: ${JSON.stringify(config.inputLimits)}, moderation: ${moderation.enabled ? moderation.names().join(', ') : 'off'}`);
+console.log(`LLM: ${describeLlm(config.llm.provider)}, TTS backend: ${tts.name}, STT backend: ${stt.name}`);
+console.log(`Tools: ${tools ? toolNames().join(', ') : 'off'}, session models: ${sessionConfig.limits.models.join(', ')}, voices: ${voices.ids().join(', ')}`);
+await Promise.all([tts.start(), stt.start()]);
+
+const server = Bun.serve<SocketData>({
+  port: config.port,
+  fetch: async (req, srv) => {
+    const url = new URL(req.url);
+    const response = await handleRequest(req, url);
+    if (response) return response;
+
+    const params = url.searchParams;
+    const version = params.get(PROTOCOL_QUERY_PARAM);
+    const apiKey = keys.lookup(tokenFromRequest(req, url));
+    const data: SocketData = {
+      protocolVersion: version === null ? null : Number(version),
+      audioEncoding: negotiateEncoding(params.get(ENCODINGS_QUERY_PARAM)),
+      // Refused in open(), so the client gets a close code it can act on
+      authorized: !keys.enabled || apiKey !== null,
+      apiKey,
+      rateKey: apiKey ? `key:${apiKey.name}` : `ip:${srv.requestIP(req)?.address ?? 'unknown'}`,
+    };
+    // Browsers drop the connection unless one of their subprotocols is echoed
+    const offered = (req.headers.get('sec-websocket-protocol') ?? '').split(',').map(p => p.trim());
+    const headers = offered.includes(SUBPROTOCOL) ? { 'Sec-WebSocket-Protocol': SUBPROTOCOL } : undefined;
+    return srv.upgrade(req, { data, headers }) ? undefined : new Response("WebSocket required", { status: 400 });
+  },
   websocket: {
+    // Bigger messages than this aren't even read: Bun closes the socket with
+    // 1009. Up to it, message() refuses them with message_too_large.
+    maxPayloadLength: config.inputLimits.maxFrameBytes * 4,
     async message(ws, msg) {
+      const client = [...clients.values()].find(c => c.ws === ws);
+      if (!client) return;
+
       try {
-        const data = JSON.parse(msg.toString());
-        if (data.type === 'chat' && data.prompt) {
-          console.log('Chat:', data.prompt);
-          ttsQueue.clear();
-          
-          const result = streamText({
-            model: openai('gpt-4.1-mini-2025-04-14'),
-            system: 'You are a helpful assistant. keep everything super short. never use em dashes. think deeply before answering.',
-            prompt: data.prompt,
-          });
-
-          console.log('Starting text stream...');
-          let chunkCount = 0;
-          for await (const text of result.textStream) {
-            chunkCount++;
-            console.log(`Chunk ${chunkCount}: "${text}"`);
-            ws.send(JSON.stringify({ type: 'text_chunk', text }));
-            ttsQueue.add(text);
+        const { maxFrameBytes, maxMessagesPerTurn } = config.inputLimits;
+        const size = typeof msg === 'string' ? Buffer.byteLength(msg) : msg.byteLength;
+        if (size > maxFrameBytes) throw new ProtocolError('message_too_large', `Message is ${size} bytes, the limit is ${maxFrameBytes}`);
+        if (typeof msg !== 'string') {
+          handleAudioInput(client, msg);
+          return;
+        }
+        limiter.message(client.rateKey, client.rateLimits);
+        const data = parseClientMessage(msg);
+        // A chat message starts the count over; cancel always gets through
+        if (data.type !== 'chat' && data.type !== 'cancel' && ++client.turnMessages > maxMessagesPerTurn) {
+          throw new ProtocolError('too_many_messages', `More than ${maxMessagesPerTurn} messages in one turn`);
+        }
+        switch (data.type) {
+          case 'chat':
+            await handleChat(client, data.prompt, data.turnId);
+            break;
+          case 'cancel':
+            console.log(`Cancel (${client.id})`);
+            cancelTurn(client);
+            send(ws, { type: 'cancelled' });
+            break;
+          case 'reset':
+            console.log(`Reset (${client.id})`);
+            openConversation(client, null);
+            send(ws, { type: 'reset_complete' });
+            break;
+          case 'open_conversation':
+            openConversation(client, data.conversationId, data.history);
+            break;
+          case 'audio_input_start':
+            startAudioInput(client, { sessionId: data.sessionId, sampleRate: data.sampleRate, chatTurnId: data.chatTurnId });
+            break;
+          case 'audio_input_end':
+            await endAudioInput(client, data.sessionId);
+            break;
+          case 'configure': {
+            const { type: _, ...update } = data;
+            configure(client, update);
+            break;
           }
-          
-          console.log(`Text streaming complete. Total chunks: ${chunkCount}`);
-          ttsQueue.flush();
-          ws.send(JSON.stringify({ type: 'text_complete' }));
-        } else {
-          ws.send(JSON.stringify({ type: 'error', message: 'Invalid format' }));
         }
       } catch (error) {
-        console.error('Error:', error);
-        ws.send(JSON.stringify({ type: 'error', message: 'Failed to process' }));
+        if (error instanceof ProtocolError) {
+          console.warn(`Rejected message from ${client.id}: ${error.message}`);
+          if (error.code === 'rate_limited') metrics.rateLimited.inc();
+          send(ws, { type: 'error', code: error.code, message: error.message, ...(error.retryAfterMs !== undefined && { retryAfterMs: error.retryAfterMs }) });
+        } else {
+          console.error('Error:', error);
+          send(ws, { type: 'error', code: 'internal_error', message: 'Failed to process' });
+        }
       }
     },
     open(ws) {
+      const { protocolVersion, audioEncoding, authorized, apiKey, rateKey } = ws.data;
+      if (!authorized) {
+        console.warn(`Refused client without a valid token (${rateKey})`);
+        send(ws, { type: 'error', code: 'unauthorized', message: 'Missing or invalid token' });
+        ws.close(CloseCode.Unauthorized, 'Unauthorized');
+        return;
+      }
+      if (!isSupportedVersion(protocolVersion)) {
+        console.warn(`Refused client speaking protocol ${protocolVersion ?? '(none)'}`);
+        send(ws, { type: 'error', code: 'unsupported_version', message: `Server speaks protocol ${PROTOCOL_VERSION}, client sent ${protocolVersion ?? 'none'}` });
+        ws.close(CloseCode.UnsupportedVersion, 'Unsupported protocol version');
+        return;
+      }
+
       const id = Math.random().toString(36).substring(7);
-      const client = { ws, id };
-      clients.add(client);
-      console.log(`Client ${id} connected. Total: ${clients.size}`);
+      const client = {
+        ws, id, rateKey, rateLimits: apiKey?.limits, turnMessages: 0,
+        history: new ConversationHistory(config.llm.history), turn: null, audioEncoding, audioInput: null,
+        config: sessionConfig.defaults, owner: ownerOf(apiKey), conversation: null,
+      };
+      clients.set(id, client);
+      console.log(`Client ${id} connected (${audioEncoding}${apiKey ? `, ${apiKey.name}` : ''}). Total: ${clients.size}`);
       
-      ws.send(JSON.stringify({
+      send(ws, {
         type: 'connected',
+        protocolVersion,
         message: 'Ready',
         clientId: id,
-        audioFormat: {
-          format: 'f32le',
-          sampleRate: 24000,
-          channels: 1,
-          bitDepth: 32,
-          encoding: 'float32',
-          byteOrder: 'little-endian',
-          range: '[-1.0, +1.0]',
-          note: 'Raw PCM binary'
-        }
-      }));
+        audioFormat: describeAudioFormat(audioEncoding),
+        maxFrameBytes: config.inputLimits.maxFrameBytes,
+      });
+    },
+    drain(ws) {
+      const client = [...clients.values()].find(c => c.ws === ws);
+      if (!client) return;
+      notifyDrained(client.id);
+      dispatcher.pump();
     },
     close(ws) {
-      const client = [...clients].find(c => c.ws === ws);
+      const client = [...clients.values()].find(c => c.ws === ws);
       if (client) {
-        clients.delete(client);
+        clients.delete(client.id);
+        cancelTurn(client);
+        client.audioInput?.abort();
+        notifyDrained(client.id);
+        dispatcher.forget(client.id);
         console.log(`Client ${client.id} disconnected. Total: ${clients.size}`);
       }
     },
   },
 });
 
-(async () => {
-  let counter = 0;
-  while (true) {
-    if (!ttsQueue.isEmpty() && ttsProcess?.stdin) {
-      const text = ttsQueue.next();
-      if (text) {
-        console.log(`TTS: "${text}"`);
-        try { ttsProcess.stdin.write(text + '\n'); } 
-        catch (e) { console.error('TTS write failed:', e); restartTTS(); }
-      }
-    }
-    
-    if (++counter >= 200) {
-      const m = process.memoryUsage();
-      console.log(`Queue: ${ttsQueue.size()}, RSS: ${Math.round(m.rss/1048576)}MB, Heap: ${Math.round(m.heapUsed/1048576)}MB`);
-      counter = 0;
-    }
-    
-    await new Promise(r => setTimeout(r, 50));
-  }
-})();
+setInterval(() => {
+  const m = process.memoryUsage();
+  const speaking = dispatcher.inFlightUtterances()
+    .map(f => `${f.utterance.clientId}@${f.worker} for ${Date.now() - f.startedAt}ms`).join(', ');
+  const pool = tts.stats();
+  console.log(`Queue: ${ttsQueue.size()}, Speaking: ${speaking || 'idle'}, TTS: ${tts.health().status} (${pool.ready}/${pool.size} ready, ${Math.round(pool.utilization * 100)}% busy), RSS: ${Math.round(m.rss/1048576)}MB, Heap: ${Math.round(m.heapUsed/1048576)}MB`);
+}, 10000);
 
 console.log(`Server: ws://localhost:${server.port}`);
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('\nShutting down...');
-  ttsProcess?.kill('SIGTERM');
+  await Promise.all([tts.shutdown(), stt.shutdown()]);
   clients.forEach(c => c.ws.close());
   process.exit(0);
 });
\ No newline at end of file
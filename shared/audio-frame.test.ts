@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  AUDIO_FRAME_HEADER_BYTES,
+  AudioFrameFlag,
+  AudioSampleFormat,
+  OPUS_FRAME_SAMPLES,
+  decodeAudioFrame,
+  encodeAudioFrame,
+  isAudioEncoding,
+  isFlagSet,
+  payloadSampleCount,
+  splitOpusPackets,
+  type AudioFrameHeader,
+} from './audio-frame';
+
+const header: AudioFrameHeader = {
+  format: AudioSampleFormat.S16LE,
+  flags: AudioFrameFlag.EndOfUtterance | AudioFrameFlag.Broadcast,
+  turnId: 0xffffffff,
+  utteranceId: 2,
+  sequence: 7,
+  sampleOffset: 48000,
+};
+
+// A standalone ArrayBuffer with the frame's bytes, as a WebSocket delivers it
+const received = (frame: Uint8Array) => frame.slice().buffer;
+
+describe('audio frames', () => {
+  test('round-trip the header and payload', () => {
+    const payload = new Uint8Array([1, 2, 3, 4]);
+    const frame = encodeAudioFrame(header, payload);
+    expect(frame.byteLength).toBe(AUDIO_FRAME_HEADER_BYTES + 4);
+    const decoded = decodeAudioFrame(received(frame));
+    expect(decoded?.header).toEqual(header);
+    expect(new Uint8Array(decoded!.payload)).toEqual(payload);
+    expect(isFlagSet(decoded!.header, AudioFrameFlag.Broadcast)).toBe(true);
+  });
+
+  test('start with the magic, little-endian', () => {
+    const frame = encodeAudioFrame(header, new Uint8Array(0));
+    expect(new TextDecoder().decode(frame.subarray(0, 4))).toBe('AUD1');
+  });
+
+  test('decode to null when they are not audio frames', () => {
+    expect(decodeAudioFrame(new ArrayBuffer(10))).toBeNull();
+    expect(decodeAudioFrame(new ArrayBuffer(AUDIO_FRAME_HEADER_BYTES))).toBeNull();
+  });
+
+  test('count samples by format', () => {
+    expect(payloadSampleCount(AudioSampleFormat.F32LE, new ArrayBuffer(40))).toBe(10);
+    expect(payloadSampleCount(AudioSampleFormat.S16LE, new ArrayBuffer(40))).toBe(20);
+    expect(payloadSampleCount(AudioSampleFormat.Mulaw, new ArrayBuffer(40))).toBe(40);
+    expect(payloadSampleCount(9 as AudioSampleFormat, new ArrayBuffer(40))).toBeUndefined();
+  });
+
+  test('split length-prefixed Opus packets', () => {
+    const payload = new Uint8Array([3, 0, 10, 11, 12, 1, 0, 20]);
+    expect(splitOpusPackets(payload.buffer).map(p => [...p])).toEqual([[10, 11, 12], [20]]);
+    expect(payloadSampleCount(AudioSampleFormat.Opus, payload.buffer)).toBe(2 * OPUS_FRAME_SAMPLES);
+  });
+
+  test('know their encodings by own name only', () => {
+    expect(isAudioEncoding('opus')).toBe(true);
+    expect(isAudioEncoding('toString')).toBe(false);
+  });
+});
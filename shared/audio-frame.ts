@@ -0,0 +1,119 @@
+// Binary audio frames: a fixed 24-byte little-endian header followed by the
+// samples. Every binary WebSocket message from the server is one frame.
+//
+//   0  u32  magic 'AUD1'
+//   4  u8   sample format (AudioSampleFormat)
+//   5  u8   flags (AudioFrameFlag)
+//   6  u16  reserved, zero
+//   8  u32  turn id, as sent by the client in its chat message
+//  12  u32  utterance index within the turn
+//  16  u32  sequence number within the utterance, from 0
+//  20  u32  offset of the first sample within the turn, counted at the
+//           encoding's sample rate
+
+export const AUDIO_FRAME_MAGIC = 0x31445541; // 'AUD1' read as little-endian u32
+export const AUDIO_FRAME_HEADER_BYTES = 24;
+
+export const AudioSampleFormat = {
+  F32LE: 0,
+  S16LE: 1,
+  // G.711 mu-law, one byte per sample
+  Mulaw: 2,
+  // Opus packets of OPUS_FRAME_SAMPLES samples, each prefixed by its u16 LE length
+  Opus: 3,
+} as const;
+export type AudioSampleFormat = typeof AudioSampleFormat[keyof typeof AudioSampleFormat];
+
+// Encodings a client can ask for when it connects, by name
+export const AUDIO_ENCODINGS = {
+  f32le: { format: AudioSampleFormat.F32LE, sampleRate: 24000 },
+  s16le: { format: AudioSampleFormat.S16LE, sampleRate: 24000 },
+  mulaw: { format: AudioSampleFormat.Mulaw, sampleRate: 8000 },
+  opus: { format: AudioSampleFormat.Opus, sampleRate: 24000 },
+} as const;
+export type AudioEncoding = keyof typeof AUDIO_ENCODINGS;
+
+export const isAudioEncoding = (name: unknown): name is AudioEncoding =>
+  typeof name === 'string' && Object.hasOwn(AUDIO_ENCODINGS, name);
+
+// 20 ms at 24 kHz
+export const OPUS_FRAME_SAMPLES = 480;
+
+export const AudioFrameFlag = {
+  // Last frame of an utterance, usually with no samples
+  EndOfUtterance: 1 << 0,
+  // Audio from another client's turn, sent because the server broadcasts
+  Broadcast: 1 << 1,
+} as const;
+
+export interface AudioFrameHeader {
+  format: AudioSampleFormat;
+  flags: number;
+  turnId: number;
+  utteranceId: number;
+  sequence: number;
+  sampleOffset: number;
+}
+
+export interface AudioFrame {
+  header: AudioFrameHeader;
+  payload: ArrayBuffer;
+}
+
+export const encodeAudioFrame = (header: AudioFrameHeader, payload: Uint8Array): Uint8Array => {
+  const frame = new Uint8Array(AUDIO_FRAME_HEADER_BYTES + payload.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, AUDIO_FRAME_MAGIC, true);
+  view.setUint8(4, header.format);
+  view.setUint8(5, header.flags);
+  view.setUint32(8, header.turnId, true);
+  view.setUint32(12, header.utteranceId, true);
+  view.setUint32(16, header.sequence, true);
+  view.setUint32(20, header.sampleOffset, true);
+  frame.set(payload, AUDIO_FRAME_HEADER_BYTES);
+  return frame;
+};
+
+// Returns null for anything that isn't an audio frame
+export const decodeAudioFrame = (data: ArrayBuffer): AudioFrame | null => {
+  if (data.byteLength < AUDIO_FRAME_HEADER_BYTES) return null;
+  const view = new DataView(data);
+  if (view.getUint32(0, true) !== AUDIO_FRAME_MAGIC) return null;
+  return {
+    header: {
+      format: view.getUint8(4) as AudioSampleFormat,
+      flags: view.getUint8(5),
+      turnId: view.getUint32(8, true),
+      utteranceId: view.getUint32(12, true),
+      sequence: view.getUint32(16, true),
+      sampleOffset: view.getUint32(20, true),
+    },
+    // Copied, so the samples start at an aligned offset for typed arrays
+    payload: data.slice(AUDIO_FRAME_HEADER_BYTES),
+  };
+};
+
+export const splitOpusPackets = (payload: ArrayBuffer): Uint8Array[] => {
+  const packets: Uint8Array[] = [];
+  const view = new DataView(payload);
+  for (let offset = 0; offset + 2 <= payload.byteLength;) {
+    const length = view.getUint16(offset, true);
+    packets.push(new Uint8Array(payload, offset + 2, length));
+    offset += 2 + length;
+  }
+  return packets;
+};
+
+// Samples a payload holds, at its encoding's sample rate; undefined for a
+// format from a newer peer
+export const payloadSampleCount = (format: AudioSampleFormat, payload: ArrayBuffer): number | undefined => {
+  switch (format) {
+    case AudioSampleFormat.F32LE: return payload.byteLength / 4;
+    case AudioSampleFormat.S16LE: return payload.byteLength / 2;
+    case AudioSampleFormat.Mulaw: return payload.byteLength;
+    case AudioSampleFormat.Opus: return splitOpusPackets(payload).length * OPUS_FRAME_SAMPLES;
+    default: return undefined;
+  }
+};
+
+export const isFlagSet = (header: AudioFrameHeader, flag: number) => (header.flags & flag) !== 0;
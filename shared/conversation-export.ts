@@ -0,0 +1,58 @@
+// Conversation exports, shared so the client's and the server's read the same
+
+import type { StoredTurn, TurnTimings } from './protocol';
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'wav'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+export interface ExportedTool {
+  name: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+}
+
+export interface ExportedMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // ISO timestamp
+  timestamp: string;
+  // Speech recognition confidence, 0 to 1, for spoken prompts
+  confidence?: number;
+  tools?: ExportedTool[];
+  // Assistant messages exported by the server
+  model?: string;
+  voice?: string;
+  status?: StoredTurn['status'];
+  timings?: TurnTimings;
+}
+
+// The JSON export
+export interface ExportedConversation {
+  title: string;
+  exportedAt: string;
+  messages: ExportedMessage[];
+}
+
+export const exportFileName = (title: string, extension: string) =>
+  `${title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation'}.${extension}`;
+
+const toolLine = (tool: ExportedTool) =>
+  `> Used \`${tool.name}\`${tool.error ? ` (failed: ${tool.error})` : ''}`;
+
+export const toMarkdown = (conversation: ExportedConversation): string => {
+  const lines = [`# ${conversation.title}`, '', `_Exported ${new Date(conversation.exportedAt).toLocaleString()}_`];
+  for (const message of conversation.messages) {
+    const details = [new Date(message.timestamp).toLocaleString()];
+    if (message.confidence !== undefined) details.push(`confidence ${Math.round(message.confidence * 100)}%`);
+    if (message.status && message.status !== 'complete') details.push(message.status);
+    lines.push('', `**${message.role === 'user' ? 'You' : 'Assistant'}** · ${details.join(' · ')}`, '');
+    lines.push(...(message.tools ?? []).map(toolLine));
+    if (message.tools?.length) lines.push('');
+    lines.push(message.content || '_(no reply)_');
+  }
+  return `${lines.join('\n')}\n`;
+};
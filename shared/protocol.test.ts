@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { ProtocolError, isKnownTo, isSupportedVersion, parseClientMessage, parseServerMessage } from './protocol';
+
+const codeOf = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof ProtocolError) return error.code;
+    throw error;
+  }
+  return null;
+};
+
+describe('parseClientMessage', () => {
+  test('accepts valid messages', () => {
+    expect(parseClientMessage('{"type":"chat","prompt":"Hi","turnId":3}')).toEqual({ type: 'chat', prompt: 'Hi', turnId: 3 });
+    expect(parseClientMessage('{"type":"configure","model":null,"temperature":0.5}').type).toBe('configure');
+    expect(parseClientMessage('{"type":"open_conversation","conversationId":"c1"}').type).toBe('open_conversation');
+    expect(parseClientMessage(JSON.stringify({
+      type: 'open_conversation', conversationId: null, history: [{ prompt: 'Hi', reply: 'Hello' }],
+    })).type).toBe('open_conversation');
+  });
+
+  test('rejects what is not a message', () => {
+    expect(codeOf(() => parseClientMessage('{"type":'))).toBe('malformed_message');
+    expect(codeOf(() => parseClientMessage('[]'))).toBe('malformed_message');
+    expect(codeOf(() => parseClientMessage('{"type":7}'))).toBe('malformed_message');
+  });
+
+  test('rejects unknown types, including inherited property names', () => {
+    for (const type of ['shout', 'toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      expect(codeOf(() => parseClientMessage(JSON.stringify({ type })))).toBe('unknown_message_type');
+    }
+  });
+
+  test('rejects messages with bad fields', () => {
+    for (const message of [
+      { type: 'chat', prompt: '   ', turnId: 1 },
+      { type: 'chat', prompt: 'Hi', turnId: -1 },
+      { type: 'audio_input_start', sessionId: 1, sampleRate: 1000 },
+      { type: 'open_conversation', conversationId: 5 },
+      { type: 'open_conversation', conversationId: null, history: [{ prompt: 'Hi' }] },
+      { type: 'configure', maxTokens: 1.5 },
+    ]) {
+      expect(codeOf(() => parseClientMessage(JSON.stringify(message)))).toBe('invalid_message');
+    }
+  });
+});
+
+describe('parseServerMessage', () => {
+  test('takes maxFrameBytes in connected when there is one', () => {
+    const connected = { type: 'connected', protocolVersion: 12, message: 'Ready', clientId: 'a', audioFormat: {} };
+    expect(parseServerMessage(JSON.stringify(connected)).type).toBe('connected');
+    expect(parseServerMessage(JSON.stringify({ ...connected, maxFrameBytes: 65536 })).type).toBe('connected');
+    expect(codeOf(() => parseServerMessage(JSON.stringify({ ...connected, maxFrameBytes: '64k' })))).toBe('invalid_message');
+  });
+});
+
+describe('versions', () => {
+  test('supports the versions in range', () => {
+    expect(isSupportedVersion(2)).toBe(true);
+    expect(isSupportedVersion(1)).toBe(false);
+    expect(isSupportedVersion('12')).toBe(false);
+  });
+
+  test('only sends events a version knows', () => {
+    expect(isKnownTo(4, 'tool_call')).toBe(false);
+    expect(isKnownTo(5, 'tool_call')).toBe(true);
+    expect(isKnownTo(9, 'conversation')).toBe(false);
+    expect(isKnownTo(2, 'text_chunk')).toBe(true);
+  });
+});
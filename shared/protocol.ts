@@ -0,0 +1,360 @@
+// WebSocket protocol shared by the server and the browser client. JSON text
+// frames carry the messages below; binary frames carry synthesized audio,
+// framed as described in audio-frame.ts.
+
+import type { AudioEncoding } from './audio-frame';
+
+// 2: audio frames carry a header, chat messages carry a turn id
+// 3: clients may negotiate the audio encoding
+// 4: clients may stream microphone audio for server-side transcription
+// 5: replies report the tools they call
+// 6: sessions may pick their model, system prompt and sampling settings
+// 7: sessions may pick a voice
+// 8: connections may need a token, and errors may ask to retry later
+// 9: prompts and replies may be moderated
+// 10: conversations are stored and can be reopened
+// 11: clients may send the history of a conversation the server doesn't have
+// 12: connected says how large a message the server takes
+export const PROTOCOL_VERSION = 12;
+// Oldest peer version this build can still talk to
+export const MIN_PROTOCOL_VERSION = 2;
+
+export const isSupportedVersion = (version: unknown): version is number =>
+  typeof version === 'number' && version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+
+// Clients announce their version in the upgrade URL, e.g. ws://host:3000/?protocol=2
+export const PROTOCOL_QUERY_PARAM = 'protocol';
+// Audio encodings the client can play, most preferred first, e.g.
+// &encodings=opus,s16le. The server picks the first it has, else f32le.
+export const ENCODINGS_QUERY_PARAM = 'encodings';
+
+// When the server requires auth, clients present a token either as
+// &token=<token>, or, where URLs end up in logs, as a WebSocket subprotocol:
+// new WebSocket(url, [SUBPROTOCOL, AUTH_SUBPROTOCOL_PREFIX + token]). The
+// server then answers with SUBPROTOCOL.
+export const TOKEN_QUERY_PARAM = 'token';
+export const SUBPROTOCOL = 'voice-chat';
+export const AUTH_SUBPROTOCOL_PREFIX = 'token.';
+
+// HTTP route listing the voices (VoicesResponse); a short WAV sample of each
+// is at /voices/<id>/preview
+export const VOICES_PATH = '/voices';
+
+export interface VoiceInfo { id: string; name: string; description?: string }
+export interface VoicesResponse { voices: VoiceInfo[]; defaultVoice: string }
+
+// HTTP routes for stored conversations. GET lists them (ConversationsResponse),
+// and /conversations/<id> answers GET (ConversationDetail), PATCH with
+// {"title"} (ConversationSummary) and DELETE (204). GET
+// /conversations/<id>/export?format=markdown|json|wav downloads it, see
+// conversation-export.ts. When the server requires auth, send the token as
+// Authorization: Bearer <token>.
+export const CONVERSATIONS_PATH = '/conversations';
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  turnCount: number;
+}
+
+export interface ToolRecord {
+  id: string;
+  name: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+  // Length of the reply text when the tool was called
+  textOffset: number;
+}
+
+export interface TurnTimings {
+  // From the prompt to the first reply text, and to the first audio; unset
+  // when the turn had none
+  firstTokenMs?: number;
+  firstAudioMs?: number;
+  // Until the reply text ended
+  totalMs: number;
+}
+
+// One prompt and the reply to it, as it was shown (after moderation)
+export interface StoredTurn {
+  index: number;
+  prompt: string;
+  reply: string;
+  tools: ToolRecord[];
+  model: string;
+  // A VoiceInfo id
+  voice: string;
+  status: 'complete' | 'cancelled' | 'blocked' | 'failed';
+  startedAt: string;
+  timings: TurnTimings;
+}
+
+export interface ConversationDetail extends ConversationSummary { turns: StoredTurn[] }
+export interface ConversationsResponse { conversations: ConversationSummary[] }
+
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRate: number;
+  channels: number;
+  note: string;
+}
+
+// The LLM settings a session runs with. Unset temperature and maxTokens are
+// left to the provider.
+export interface SessionConfig {
+  model: string;
+  systemPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  // A VoiceInfo id
+  voice: string;
+}
+
+// What the server lets a session pick
+export interface SessionConfigLimits {
+  models: string[];
+  voices: string[];
+  temperature: { min: number; max: number };
+  maxTokens: number;
+  systemPromptMaxChars: number;
+}
+
+// Why a prompt or reply was blocked or rewritten. blocked_term is a word on
+// the server's blocklist; the rest are categories moderation rules declare.
+export type ModerationReason =
+  | 'blocked_term'
+  | 'profanity'
+  | 'hate'
+  | 'harassment'
+  | 'violence'
+  | 'self_harm'
+  | 'sexual'
+  | 'personal_data';
+
+export const MODERATION_REASONS: readonly ModerationReason[] = [
+  'blocked_term', 'profanity', 'hate', 'harassment', 'violence', 'self_harm', 'sexual', 'personal_data',
+];
+
+// ---- Client -> server ----
+
+// turnId is chosen by the client, increases with every chat message, and tags
+// the audio frames of the reply so late audio from older turns can be dropped
+export interface ChatMessage { type: 'chat'; prompt: string; turnId: number }
+export interface CancelMessage { type: 'cancel' }
+export interface ResetMessage { type: 'reset' }
+// Opens a transcription session. The audio follows as binary frames
+// (audio-frame.ts) in F32LE or S16LE, with the session id in the turn id
+// field. With chatTurnId set, a non-empty final transcript is sent as a chat
+// message with that turn id, as if the client had sent it.
+export interface AudioInputStartMessage { type: 'audio_input_start'; sessionId: number; sampleRate: number; chatTurnId?: number }
+// No more audio for the session; the server answers with transcript_final
+export interface AudioInputEndMessage { type: 'audio_input_end'; sessionId: number }
+// A prompt and its reply, as the client has them
+export interface HistoryTurn { prompt: string; reply: string }
+// Continues a stored conversation: its turns become the model's history and
+// new turns are added to it. null starts a new one, as does reset. When the
+// server has no such conversation (or stores none), history seeds a new one
+// instead, so clients that keep their own copy can carry on. The server
+// answers with conversation.
+export interface OpenConversationMessage { type: 'open_conversation'; conversationId: string | null; history?: HistoryTurn[] }
+// Changes this session's LLM settings from the next turn on. Omitted fields
+// keep their value, null restores the server default. The server answers with
+// configured, or with an invalid_config error and no change at all.
+export interface ConfigureMessage {
+  type: 'configure';
+  model?: string | null;
+  systemPrompt?: string | null;
+  temperature?: number | null;
+  maxTokens?: number | null;
+  voice?: string | null;
+}
+
+export type ClientMessage =
+  | ChatMessage
+  | CancelMessage
+  | ResetMessage
+  | AudioInputStartMessage
+  | AudioInputEndMessage
+  | OpenConversationMessage
+  | ConfigureMessage;
+
+// ---- Server -> client ----
+
+export type ErrorCode =
+  | 'malformed_message'
+  | 'unknown_message_type'
+  | 'invalid_message'
+  | 'unsupported_version'
+  | 'tts_unavailable'
+  | 'invalid_audio'
+  | 'stt_failed'
+  | 'invalid_config'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'prompt_too_long'
+  | 'message_too_large'
+  | 'too_many_messages'
+  | 'unknown_conversation'
+  | 'internal_error';
+
+export interface ConnectedEvent {
+  type: 'connected';
+  // The version both ends speak: the client's, as long as the server supports it
+  protocolVersion: number;
+  message: string;
+  clientId: string;
+  audioFormat: AudioFormat;
+  // Largest message the server takes, in bytes; from version 12
+  maxFrameBytes?: number;
+}
+export interface TextChunkEvent { type: 'text_chunk'; text: string }
+export interface TextCompleteEvent { type: 'text_complete' }
+export interface CancelledEvent { type: 'cancelled' }
+export interface ResetCompleteEvent { type: 'reset_complete' }
+// A tool the assistant called while writing the current reply, between the
+// text_chunks before and after it
+export interface ToolCallEvent { type: 'tool_call'; toolCallId: string; toolName: string; input: unknown }
+// Exactly one of output and error is set
+export interface ToolResultEvent { type: 'tool_result'; toolCallId: string; toolName: string; output?: unknown; error?: string }
+export interface TranscriptPartialEvent { type: 'transcript_partial'; sessionId: number; text: string }
+// chatTurnId is set when the transcript started a chat turn
+export interface TranscriptFinalEvent { type: 'transcript_final'; sessionId: number; text: string; chatTurnId?: number }
+// The settings the session now runs with, after a configure message
+export interface ConfiguredEvent { type: 'configured'; config: SessionConfig; limits: SessionConfigLimits }
+// The conversation the session adds to, after open_conversation and whenever
+// a turn is stored; null until the first turn of a new one is
+export interface ConversationEvent { type: 'conversation'; conversation: ConversationSummary | null }
+// A moderation decision. A blocked prompt starts no turn; a blocked reply
+// stops where it is and ends with text_complete. A rewritten prompt comes with
+// the text the assistant got; rewritten reply text arrives in the text_chunks.
+export interface ModerationEvent {
+  type: 'moderation';
+  turnId: number;
+  target: 'prompt' | 'output';
+  action: 'blocked' | 'rewritten';
+  reason: ModerationReason;
+  text?: string;
+}
+// retryAfterMs comes with rate_limited: how long until the request would pass
+export interface ErrorEvent { type: 'error'; code: ErrorCode; message: string; retryAfterMs?: number }
+
+export type ServerMessage =
+  | ConnectedEvent
+  | TextChunkEvent
+  | TextCompleteEvent
+  | CancelledEvent
+  | ResetCompleteEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | TranscriptPartialEvent
+  | TranscriptFinalEvent
+  | ConfiguredEvent
+  | ModerationEvent
+  | ConversationEvent
+  | ErrorEvent;
+
+// The version each event first appeared in. Older clients would reject the
+// newer ones, so they aren't sent them.
+const EVENT_VERSIONS: Record<ServerMessage['type'], number> = {
+  connected: 2,
+  text_chunk: 2,
+  text_complete: 2,
+  cancelled: 2,
+  reset_complete: 2,
+  transcript_partial: 4,
+  transcript_final: 4,
+  tool_call: 5,
+  tool_result: 5,
+  configured: 6,
+  moderation: 9,
+  conversation: 10,
+  error: 2,
+};
+
+export const isKnownTo = (version: number, type: ServerMessage['type']) => version >= EVENT_VERSIONS[type];
+
+// ---- Validation ----
+
+export class ProtocolError extends Error {
+  constructor(public code: ErrorCode, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+type Validators<M extends { type: string }> = { [K in M['type']]: (m: Fields) => boolean };
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isUint32 = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 0xffffffff;
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+// Absent, null (reset) or a value
+const isSetting = (v: unknown, check: (v: unknown) => boolean) => v === undefined || v === null || check(v);
+
+const clientValidators: Validators<ClientMessage> = {
+  chat: m => isString(m.prompt) && m.prompt.trim().length > 0 && isUint32(m.turnId),
+  cancel: () => true,
+  reset: () => true,
+  audio_input_start: m => isUint32(m.sessionId) && isNumber(m.sampleRate) && m.sampleRate >= 8000 && m.sampleRate <= 192000
+    && (m.chatTurnId === undefined || isUint32(m.chatTurnId)),
+  audio_input_end: m => isUint32(m.sessionId),
+  open_conversation: m => (m.conversationId === null || isString(m.conversationId))
+    && (m.history === undefined || (Array.isArray(m.history) && m.history.every(t => isObject(t) && isString(t.prompt) && isString(t.reply)))),
+  configure: m => isSetting(m.model, isString) && isSetting(m.systemPrompt, isString)
+    && isSetting(m.temperature, isNumber) && isSetting(m.maxTokens, isUint32) && isSetting(m.voice, isString),
+};
+
+const serverValidators: Validators<ServerMessage> = {
+  connected: m => isNumber(m.protocolVersion) && isString(m.clientId) && isObject(m.audioFormat)
+    && (m.maxFrameBytes === undefined || isNumber(m.maxFrameBytes)),
+  text_chunk: m => isString(m.text),
+  text_complete: () => true,
+  cancelled: () => true,
+  reset_complete: () => true,
+  tool_call: m => isString(m.toolCallId) && isString(m.toolName),
+  tool_result: m => isString(m.toolCallId) && isString(m.toolName) && (m.error === undefined || isString(m.error)),
+  transcript_partial: m => isUint32(m.sessionId) && isString(m.text),
+  transcript_final: m => isUint32(m.sessionId) && isString(m.text) && (m.chatTurnId === undefined || isUint32(m.chatTurnId)),
+  configured: m => isObject(m.config) && isString(m.config.model) && isString(m.config.systemPrompt) && isObject(m.limits),
+  moderation: m => isUint32(m.turnId) && (m.target === 'prompt' || m.target === 'output')
+    && (m.action === 'blocked' || m.action === 'rewritten') && MODERATION_REASONS.includes(m.reason as ModerationReason)
+    && (m.text === undefined || isString(m.text)),
+  conversation: m => m.conversation === null || (isObject(m.conversation) && isString(m.conversation.id) && isString(m.conversation.title)),
+  error: m => isString(m.code) && isString(m.message) && (m.retryAfterMs === undefined || isNumber(m.retryAfterMs)),
+};
+
+const parse = <M extends { type: string }>(raw: string, validators: Validators<M>): M => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('malformed_message', 'Message is not valid JSON');
+  }
+  if (!isObject(data) || !isString(data.type)) {
+    throw new ProtocolError('malformed_message', 'Message must be an object with a string "type"');
+  }
+  // Own keys only: "toString" or "__proto__" is no message type
+  const validate = Object.hasOwn(validators, data.type) ? (validators as Record<string, (m: Fields) => boolean>)[data.type] : undefined;
+  if (!validate) {
+    throw new ProtocolError('unknown_message_type', `Unknown message type "${data.type}"`);
+  }
+  if (!validate(data)) {
+    throw new ProtocolError('invalid_message', `Invalid "${data.type}" message`);
+  }
+  return data as M;
+};
+
+export const parseClientMessage = (raw: string) => parse<ClientMessage>(raw, clientValidators);
+export const parseServerMessage = (raw: string) => parse<ServerMessage>(raw, serverValidators);
+
+// WebSocket close codes the server uses when it refuses a connection
+export const CloseCode = {
+  UnsupportedVersion: 4000,
+  // Missing, unknown or revoked token
+  Unauthorized: 4001,
+} as const;